@@ -7,7 +7,9 @@
  *   - Token usage (input, output, cache read/write) as spans + metrics
  *   - Tool execution spans with result metadata
  *   - Metrics: token usage, cost, latency histograms, tool calls
+ *   - Logs: security events, hook errors and plugin log lines, trace-correlated
  *   - OTLP export to any OpenTelemetry-compatible backend (Dynatrace, Grafana, etc.)
+ *   - Offline export as rotating OTLP-JSON line files (air-gapped deployments)
  *
  * Usage in openclaw config:
  *   {
@@ -30,10 +32,27 @@
  */
 
 import { parseConfig, type OtelObservabilityConfig } from "./src/config.js";
-import { initTelemetry, type TelemetryRuntime } from "./src/telemetry.js";
+import { exportTargets, initTelemetry, signalExport, type TelemetryRuntime } from "./src/telemetry.js";
 import { initOpenLLMetry } from "./src/openllmetry.js";
 import { registerHooks } from "./src/hooks.js";
 import { registerDiagnosticsListener, hasDiagnosticsSupport } from "./src/diagnostics.js";
+import { runDoctor, runExportTest, runGatewayChecks, type DoctorCheck } from "./src/doctor.js";
+import { parseTraceFilter, type RecentTrace, type RecentTraceSummary } from "./src/recent-traces.js";
+import { SessionRegistry } from "./src/sessions.js";
+import { maskHeaders } from "./src/secrets.js";
+import { callGatewayMethod, gatewayError } from "./src/gateway-client.js";
+import type { ExportSignal, SignalHealth } from "./src/exporter-health.js";
+import type { RetryQueueStatus } from "./src/retry-queue.js";
+import type { HeaderSecretsStatus } from "./src/secrets.js";
+
+/** Live state in the otel-observability.status payload, read by the CLI */
+interface GatewayStatus {
+  initialized: boolean;
+  costTracking: boolean;
+  exporters?: Partial<Record<ExportSignal, SignalHealth>>;
+  retryQueue?: RetryQueueStatus;
+  headerSecrets?: HeaderSecretsStatus;
+}
 
 const otelObservabilityPlugin = {
   id: "otel-observability",
@@ -53,6 +72,8 @@ const otelObservabilityPlugin = {
 
     let telemetry: TelemetryRuntime | null = null;
     let unsubscribeDiagnostics: (() => void) | null = null;
+    let disposeHooks: (() => void) | null = null;
+    let sessions: SessionRegistry | null = null;
 
     // ── RPC: status endpoint ────────────────────────────────────────
 
@@ -61,39 +82,253 @@ const otelObservabilityPlugin = {
       ({ respond }: { respond: (ok: boolean, payload?: unknown) => void }) => {
         respond(true, {
           initialized: telemetry !== null,
+          costTracking: hasDiagnosticsSupport(),
           config: {
             endpoint: config.endpoint,
             protocol: config.protocol,
+            ...(config.protocol === "file"
+              ? { directory: config.file.directory }
+              : { targets: exportTargets(config), headers: maskHeaders(config.headers) }),
             serviceName: config.serviceName,
             traces: config.traces,
             metrics: config.metrics,
             logs: config.logs,
+            prometheus: config.prometheus.enabled,
             captureContent: config.captureContent,
+            sampling: config.sampling.mode,
+            enforcement: config.enforcement.enabled,
+            retryQueue: config.retryQueue.enabled,
+            recentTraces: config.recentTraces.enabled,
           },
+          ...(telemetry ? { exporters: telemetry.exporterHealth.snapshot() } : {}),
+          ...(telemetry?.retryQueue ? { retryQueue: telemetry.retryQueue.status() } : {}),
+          ...(telemetry ? { headerSecrets: telemetry.headerSecrets.status() } : {}),
         });
       }
     );
 
+    // ── RPC: recent traces ──────────────────────────────────────────
+
+    type GatewayRequest = { params?: unknown; respond: (ok: boolean, payload?: unknown) => void };
+
+    api.registerGatewayMethod("otel-observability.traces.recent", ({ params, respond }: GatewayRequest) => {
+      if (!telemetry?.recentTraces) {
+        respond(false, { error: "Recent traces are not being recorded (recentTraces.enabled or traces is off)" });
+        return;
+      }
+      respond(true, { traces: telemetry.recentTraces.recent(parseTraceFilter(params)) });
+    });
+
+    api.registerGatewayMethod("otel-observability.traces.get", ({ params, respond }: GatewayRequest) => {
+      const traceId = (params as { traceId?: unknown } | undefined)?.traceId;
+      if (typeof traceId !== "string" || !traceId) {
+        respond(false, { error: "traceId is required" });
+        return;
+      }
+      const found = telemetry?.recentTraces?.get(traceId);
+      if (!found) {
+        respond(false, { error: `Trace ${traceId} is not in the recent-trace buffer` });
+        return;
+      }
+      respond(true, { trace: found });
+    });
+
+    // ── RPC: doctor checks of the gateway process ───────────────────
+
+    api.registerGatewayMethod("otel-observability.doctor", ({ respond }: GatewayRequest) => {
+      respond(true, { checks: runGatewayChecks(config, telemetry !== null) });
+    });
+
     // ── CLI command ─────────────────────────────────────────────────
 
     api.registerCli(
       ({ program }: { program: any }) => {
-        program
+        const otel = program
           .command("otel")
           .description("OpenTelemetry observability status")
           .action(async () => {
+            // Live state is in the gateway process, not this one
+            let status: GatewayStatus | undefined;
+            let unreachable = "";
+            try {
+              status = (await callGatewayMethod("otel-observability.status")) as GatewayStatus;
+            } catch (err) {
+              unreachable = gatewayError(err);
+            }
+
             console.log("🔭 OpenTelemetry Observability Plugin");
             console.log("─".repeat(40));
-            console.log(`  Endpoint:        ${config.endpoint}`);
+            console.log(
+              config.protocol === "file"
+                ? `  Directory:       ${config.file.directory}`
+                : `  Endpoint:        ${config.endpoint}`
+            );
             console.log(`  Protocol:        ${config.protocol}`);
+            for (const signal of ["traces", "metrics", "logs"] as const) {
+              const overrides = config.signals[signal];
+              if (config.protocol !== "file" && (overrides.endpoint || overrides.protocol)) {
+                const target = signalExport(config, signal);
+                console.log(`  ${`  ${signal}:`.padEnd(17)}${target.target} (${target.protocol})`);
+              }
+            }
+            const headers = Object.entries(maskHeaders(config.headers));
+            if (config.protocol !== "file" && headers.length > 0) {
+              console.log(`  Headers:         ${headers.map(([name, value]) => `${name}=${value}`).join(", ")}`);
+            }
+            for (const ref of status?.headerSecrets?.references ?? []) {
+              console.log(
+                `  ${"Header secret:".padEnd(17)}${ref.resolved ? "✅" : "❌"} ${ref.header} (${ref.signal}) = ${ref.value}${ref.error ? ` — ${ref.error}` : ""}`
+              );
+            }
             console.log(`  Service:         ${config.serviceName}`);
             console.log(`  Traces:          ${config.traces ? "✅" : "❌"}`);
             console.log(`  Metrics:         ${config.metrics ? "✅" : "❌"}`);
             console.log(`  Logs:            ${config.logs ? "✅" : "❌"}`);
+            console.log(
+              `  Prometheus:      ${config.prometheus.enabled ? `✅ (${config.prometheus.host}:${config.prometheus.port}${config.prometheus.endpoint})` : "❌"}`
+            );
             console.log(`  Capture content: ${config.captureContent ? "✅" : "❌"}`);
-            console.log(`  Initialized:     ${telemetry ? "✅" : "❌"}`);
-            console.log(`  Cost tracking:   ${hasDiagnosticsSupport() ? "✅ (via diagnostics API)" : "❌"}`);
+            console.log(`  Sampling:        ${config.sampling.mode} (ratio=${config.sampling.ratio})`);
+            console.log(`  Enforcement:     ${config.enforcement.enabled ? "✅" : "❌"}`);
+            console.log(`  Retry queue:     ${config.retryQueue.enabled ? `✅ (${config.retryQueue.directory})` : "❌"}`);
+            if (!status) {
+              console.log(`  Gateway:         ❌ not reachable — ${unreachable}`);
+              return;
+            }
+            const backlog = status.retryQueue;
+            if (backlog) {
+              console.log(`  Queued batches:  ${backlog.batches} (${backlog.bytes} bytes, ${backlog.dropped} dropped)`);
+            }
+            console.log(`  Initialized:     ${status.initialized ? "✅" : "❌"}`);
+            console.log(`  Cost tracking:   ${status.costTracking ? "✅ (via diagnostics API)" : "❌"}`);
+
+            for (const [signal, health] of Object.entries(status.exporters ?? {})) {
+              const queue = health.queueDepth !== undefined ? ` queue=${health.queueDepth}` : "";
+              const latency = health.avgLatencyMs !== undefined ? ` avg=${health.avgLatencyMs}ms` : "";
+              console.log(
+                `  ${`Export ${signal}:`.padEnd(17)}${health.healthy ? "✅" : "❌"} ok=${health.successes} failed=${health.failures} dropped=${health.dropped}${queue}${latency}`
+              );
+              if (!health.healthy && health.lastError) {
+                console.log(`                   Last error: ${health.lastError} (${health.lastErrorAt})`);
+              }
+            }
+          });
+
+        otel
+          .command("test")
+          .description("Send a synthetic trace, metric and log through the configured exporters")
+          .action(async () => {
+            console.log("🔭 OpenTelemetry export test");
+            console.log("─".repeat(40));
+            const results = await runExportTest(config);
+            if (results.length === 0) {
+              console.log("  No signals enabled (traces, metrics and logs are all off)");
+            }
+            for (const result of results) {
+              console.log(
+                `  ${`${result.signal}:`.padEnd(9)}${result.ok ? "✅" : "❌"} ${result.latencyMs}ms → ${result.target}`
+              );
+              if (!result.ok) {
+                console.log(`           ${result.error}${result.code !== undefined ? ` (code ${result.code})` : ""}`);
+                if (result.details) console.log(`           ${result.details.slice(0, 500)}`);
+              }
+            }
+            if (results.some((result) => !result.ok)) process.exitCode = 1;
+          });
+
+        /** One line per trace summary, as `otel traces` lists them */
+        const traceLine = (t: RecentTraceSummary): string => {
+          const cost = t.costUsd !== undefined ? ` $${t.costUsd.toFixed(4)}` : "";
+          const security = t.securityDetections.length ? ` ⚠️  ${t.securityDetections.join(",")}` : "";
+          return (
+            `${t.status === "error" ? "❌" : "✅"} ${t.startTime}  ${String(t.durationMs).padStart(7)}ms  ` +
+            `${t.traceId}  ${t.agentId ?? "-"}  ${t.sessionKey ?? "-"}  tools=${t.toolCalls}${cost}${security}`
+          );
+        };
+
+        otel
+          .command("traces [traceId]")
+          .description("List recently finished request traces, or show the spans of one")
+          .option("--session <key>", "Only traces of this session key")
+          .option("--agent <id>", "Only traces of this agent")
+          .option("--errors", "Only traces with an error")
+          .option("--min-duration <ms>", "Only traces at least this long")
+          .option("--security", "Only traces with a security detection")
+          .option("--limit <n>", "Number of traces to list", "20")
+          .action(async (traceId: string | undefined, opts: Record<string, string | boolean | undefined>) => {
+            // The buffer is in the gateway process, not this one
+            if (traceId) {
+              let found: RecentTrace;
+              try {
+                ({ trace: found } = (await callGatewayMethod("otel-observability.traces.get", { traceId })) as {
+                  trace: RecentTrace;
+                });
+              } catch (err) {
+                console.log(gatewayError(err));
+                process.exitCode = 1;
+                return;
+              }
+              console.log(traceLine(found));
+              const depth = new Map<string, number>();
+              for (const span of [...found.spans].sort((a, b) => a.startTime.localeCompare(b.startTime))) {
+                const level = span.parentSpanId !== undefined ? (depth.get(span.parentSpanId) ?? 0) + 1 : 1;
+                depth.set(span.spanId, level);
+                const message = span.statusMessage ? ` — ${span.statusMessage}` : "";
+                console.log(
+                  `${"  ".repeat(level)}${span.status === "error" ? "❌" : "✅"} ${span.name}  ${span.durationMs}ms${message}`
+                );
+              }
+              return;
+            }
 
+            let traces: RecentTraceSummary[];
+            try {
+              ({ traces } = (await callGatewayMethod(
+                "otel-observability.traces.recent",
+                parseTraceFilter({
+                  sessionKey: opts.session,
+                  agentId: opts.agent,
+                  status: opts.errors ? "error" : undefined,
+                  minDurationMs: opts.minDuration,
+                  security: opts.security ? true : undefined,
+                  limit: opts.limit,
+                })
+              )) as { traces: RecentTraceSummary[] });
+            } catch (err) {
+              console.log(gatewayError(err));
+              process.exitCode = 1;
+              return;
+            }
+            if (traces.length === 0) {
+              console.log("No matching traces");
+              return;
+            }
+            for (const t of traces) console.log(traceLine(t));
+          });
+
+        otel
+          .command("doctor")
+          .description("Check endpoint, headers, preload and SDK setup for common problems")
+          .action(async () => {
+            const icons = { ok: "✅", info: "ℹ️ ", warn: "⚠️ ", error: "❌" };
+            console.log("🩺 OpenTelemetry doctor");
+            console.log("─".repeat(40));
+            const checks = await runDoctor(config);
+            // Preload, globals and OTEL_* variables are the gateway's, not this process's
+            try {
+              const gateway = (await callGatewayMethod("otel-observability.doctor")) as { checks: DoctorCheck[] };
+              checks.push(...gateway.checks);
+            } catch (err) {
+              checks.push({
+                name: "gateway",
+                level: "warn",
+                message: `not reachable, environment, preload and global provider checks skipped — ${gatewayError(err)}`,
+              });
+            }
+            for (const check of checks) {
+              console.log(`  ${icons[check.level]} ${`${check.name}:`.padEnd(18)}${check.message}`);
+            }
+            if (checks.some((check) => check.level === "error")) process.exitCode = 1;
           });
       },
       { commands: ["otel"] }
@@ -107,35 +342,49 @@ const otelObservabilityPlugin = {
       start: async () => {
         logger.info("[otel] Starting OpenTelemetry observability...");
 
-        // 1. Initialize our OTel providers FIRST (traces + metrics)
+        // 1. Initialize our OTel providers FIRST (traces + metrics + logs)
         //    This registers our TracerProvider as global, so all spans
         //    (including GenAI wraps) export through our pipeline.
         telemetry = initTelemetry(config, logger);
 
+        // From here on, use the bridged logger so [otel] lines are exported too
+        const otelLogger = telemetry.logger;
+
         // 2. Wrap LLM SDKs AFTER provider is registered
         //    The wraps use trace.getTracer() which goes through our provider.
         if (config.traces) {
-          await initOpenLLMetry(config, logger);
+          await initOpenLLMetry(config, otelLogger);
         }
 
         // 3. Register hooks for tool results and command events
-        registerHooks(api, telemetry, config);
+        //    Conversation sessions drive openclaw.sessions.active and otel_usage
+        sessions = new SessionRegistry(telemetry, config.sessions);
+        disposeHooks = registerHooks(api, telemetry, config, sessions);
 
         // 4. Subscribe to OpenClaw diagnostic events (model.usage, etc.)
         //    This gives us cost data and accurate token counts
-        unsubscribeDiagnostics = await registerDiagnosticsListener(telemetry, logger);
+        unsubscribeDiagnostics = await registerDiagnosticsListener(telemetry, otelLogger);
         if (hasDiagnosticsSupport()) {
-          logger.info("[otel] ✅ Integrated with OpenClaw diagnostics (cost tracking enabled)");
+          otelLogger.info("[otel] ✅ Integrated with OpenClaw diagnostics (cost tracking enabled)");
         }
 
-        logger.info("[otel] ✅ Observability pipeline active");
-        logger.info(
+        otelLogger.info("[otel] ✅ Observability pipeline active");
+        otelLogger.info(
           `[otel]   Traces=${config.traces} Metrics=${config.metrics} Logs=${config.logs}`
         );
-        logger.info(`[otel]   Endpoint=${config.endpoint} (${config.protocol})`);
+        otelLogger.info(
+          `[otel]   ${config.protocol === "file" ? `Directory=${config.file.directory}` : `Endpoint=${config.endpoint}`} (${config.protocol})`
+        );
       },
 
       stop: async () => {
+        if (disposeHooks) {
+          disposeHooks();
+          disposeHooks = null;
+        }
+        // Export the summaries of sessions still open before the providers shut down
+        sessions?.endAll();
+        sessions = null;
         if (unsubscribeDiagnostics) {
           unsubscribeDiagnostics();
           unsubscribeDiagnostics = null;
@@ -172,6 +421,7 @@ const otelObservabilityPlugin = {
             metrics: config.metrics,
             logs: config.logs,
             captureContent: config.captureContent,
+            exporters: telemetry?.exporterHealth.snapshot(),
           };
           return {
             content: [
@@ -185,6 +435,70 @@ const otelObservabilityPlugin = {
       },
       { optional: true }
     );
+
+    // ── Agent tool: otel_usage ──────────────────────────────────────
+    // Lets the agent check its own spend and context use, e.g. to
+    // summarize or wrap up before hitting a budget or the context limit
+
+    api.registerTool(
+      (ctx: any) => ({
+        name: "otel_usage",
+        label: "OTel Usage",
+        description:
+          "Check token usage, cost, context window utilization, tool calls and recent security detections for the current session and agent.",
+        parameters: {
+          type: "object",
+          properties: {},
+          additionalProperties: false,
+        },
+        async execute() {
+          const sessionKey: string = ctx?.sessionKey || "unknown";
+          const session = sessions?.get(sessionKey);
+          const agentId: string = session?.agentId || ctx?.agentId || "unknown";
+          const contextUsed = session?.contextUsed;
+          const contextLimit = session?.contextLimit;
+
+          const usage = {
+            initialized: sessions !== null,
+            session: session
+              ? {
+                  sessionKey,
+                  turns: session.turns,
+                  tokens: session.tokens,
+                  costUsd: session.costUsd,
+                  startedAt: new Date(session.firstSeen).toISOString(),
+                  context: {
+                    used: contextUsed,
+                    limit: contextLimit,
+                    utilization:
+                      contextUsed !== undefined && contextLimit ? Math.round((contextUsed / contextLimit) * 1000) / 1000 : undefined,
+                  },
+                  toolCalls: session.toolCalls,
+                  securityDetections: session.detections.map((d) => ({
+                    detection: d.detection,
+                    severity: d.severity,
+                    at: new Date(d.timestamp).toISOString(),
+                  })),
+                }
+              : undefined,
+            agent: sessions ? { agentId, today: sessions.agentUsage(agentId) } : undefined,
+            budgets: {
+              session: config.budgets.session,
+              agent: config.budgets.agents[agentId] ?? config.budgets.agent,
+            },
+          };
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(usage, null, 2),
+              },
+            ],
+          };
+        },
+      }),
+      { optional: true, names: ["otel_usage"] }
+    );
   },
 };
 
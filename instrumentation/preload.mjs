@@ -26,7 +26,13 @@ const { resourceFromAttributes } = await import("@opentelemetry/resources");
 const { AnthropicInstrumentation } = await import("@traceloop/instrumentation-anthropic");
 const { OpenAIInstrumentation } = await import("@traceloop/instrumentation-openai");
 
-const OTLP_ENDPOINT = process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318";
+// Resolved like the plugin's trace endpoint: the per-signal variable is used
+// as-is, the general one gets /v1/traces appended. Headers and timeout come
+// from OTEL_EXPORTER_OTLP_[TRACES_]HEADERS / _TIMEOUT (read by the exporter).
+const TRACES_ENDPOINT =
+  process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+  `${(process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318").replace(/\/+$/, "")}/v1/traces`;
+// OTEL_RESOURCE_ATTRIBUTES is merged in by the SDK's resource detection
 const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || "openclaw-gateway";
 
 const resource = resourceFromAttributes({
@@ -36,7 +42,7 @@ const resource = resourceFromAttributes({
 });
 
 const traceExporter = new OTLPTraceExporter({
-  url: `${OTLP_ENDPOINT}/v1/traces`,
+  url: TRACES_ENDPOINT,
 });
 
 const sdk = new NodeSDK({
@@ -56,4 +62,4 @@ globalThis.__OPENCLAW_OTEL_PRELOAD_ACTIVE = true;
 process.on("SIGTERM", () => sdk.shutdown());
 process.on("SIGINT", () => sdk.shutdown());
 
-console.log(`[otel-preload] GenAI instrumentation active (endpoint=${OTLP_ENDPOINT}, IITM loader registered)`);
+console.log(`[otel-preload] GenAI instrumentation active (endpoint=${TRACES_ENDPOINT}, IITM loader registered)`);
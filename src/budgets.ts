@@ -0,0 +1,255 @@
+/**
+ * Cost and token budgets — tracks spend per session, per agent, per channel
+ * and for the whole gateway per calendar day, and reports threshold
+ * crossings (50/80/100% by default).
+ *
+ * Usage is charged once per agent turn, from the turn's accumulated totals
+ * (agent_end). State is in memory: budgets start over when the gateway
+ * restarts. Agent, channel and day budgets roll over at midnight UTC.
+ *
+ * A crossing is reported as:
+ *   - a "budget.threshold" span event on the agent turn
+ *   - an "openclaw.budget.threshold" log record
+ *   - the openclaw.budget.exceeded counter
+ *
+ * Budgets with blockTools are a soft stop once exhausted: new agent turns
+ * are told to stop and their tool calls are blocked. The plugin hooks
+ * cannot cancel a turn, so its model call still runs (and is billed).
+ */
+
+import type { Span } from "@opentelemetry/api";
+import type { BudgetLimit, BudgetsConfig } from "./config.js";
+import type { TelemetryRuntime } from "./telemetry.js";
+import { emitLogRecord } from "./logs.js";
+
+export type BudgetScope = "session" | "agent" | "channel" | "day";
+
+export type BudgetMetric = "cost" | "tokens";
+
+/** What a turn is charged against */
+export interface BudgetKeys {
+  sessionKey: string;
+  agentId: string;
+  channel: string;
+}
+
+export interface BudgetCrossing {
+  scope: BudgetScope;
+  /** Session key, agent ID, channel or date the budget belongs to */
+  key: string;
+  metric: BudgetMetric;
+  /** Fraction of the limit that was crossed (1 = exhausted) */
+  threshold: number;
+  used: number;
+  limit: number;
+  blockTools: boolean;
+}
+
+interface BudgetState {
+  costUsd: number;
+  tokens: number;
+  /** "<metric>:<threshold>" already reported */
+  crossed: Set<string>;
+}
+
+function utcDate(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export class BudgetTracker {
+  private readonly states = new Map<string, BudgetState>();
+  private currentDate = "";
+
+  constructor(private readonly config: BudgetsConfig) {}
+
+  /** Whether any budget is configured at all */
+  get enabled(): boolean {
+    const { session, agent, channel, day, agents, channels } = this.config;
+    return Boolean(
+      session || agent || channel || day || Object.keys(agents).length || Object.keys(channels).length
+    );
+  }
+
+  /** Whether any budget may block tool calls */
+  get blocksTools(): boolean {
+    return this.limitsOf().some((limit) => limit?.blockTools);
+  }
+
+  /**
+   * Charge one finished turn and return the thresholds it crossed.
+   */
+  record(keys: BudgetKeys, costUsd: number, tokens: number, now = Date.now()): BudgetCrossing[] {
+    const crossings: BudgetCrossing[] = [];
+
+    for (const { scope, key, stateKey, limit } of this.applicable(keys, now)) {
+      const state = this.stateFor(stateKey);
+      state.costUsd += costUsd;
+      state.tokens += tokens;
+
+      for (const [metric, used, max] of [
+        ["cost", state.costUsd, limit.costUsd],
+        ["tokens", state.tokens, limit.tokens],
+      ] as Array<[BudgetMetric, number, number | undefined]>) {
+        if (max === undefined) continue;
+        for (const threshold of this.config.thresholds) {
+          const id = `${metric}:${threshold}`;
+          if (used >= max * threshold && !state.crossed.has(id)) {
+            state.crossed.add(id);
+            crossings.push({ scope, key, metric, threshold, used, limit: max, blockTools: limit.blockTools });
+          }
+        }
+      }
+    }
+
+    return crossings;
+  }
+
+  /**
+   * The first exhausted blockTools budget these keys fall under, if any.
+   */
+  exhausted(keys: BudgetKeys, now = Date.now()): BudgetCrossing | undefined {
+    for (const { scope, key, stateKey, limit } of this.applicable(keys, now)) {
+      if (!limit.blockTools) continue;
+      const state = this.states.get(stateKey);
+      if (!state) continue;
+      if (limit.costUsd !== undefined && state.costUsd >= limit.costUsd) {
+        return { scope, key, metric: "cost", threshold: 1, used: state.costUsd, limit: limit.costUsd, blockTools: true };
+      }
+      if (limit.tokens !== undefined && state.tokens >= limit.tokens) {
+        return { scope, key, metric: "tokens", threshold: 1, used: state.tokens, limit: limit.tokens, blockTools: true };
+      }
+    }
+    return undefined;
+  }
+
+  /** Forget an ended session's budget — the next session on the key starts at zero */
+  endSession(sessionKey: string): void {
+    this.states.delete(`session:${sessionKey}`);
+  }
+
+  private limitsOf(): Array<BudgetLimit | undefined> {
+    const { session, agent, channel, day, agents, channels } = this.config;
+    return [session, agent, channel, day, ...Object.values(agents), ...Object.values(channels)];
+  }
+
+  /** Budgets that apply to these keys, with their state keys for today */
+  private applicable(
+    keys: BudgetKeys,
+    now: number
+  ): Array<{ scope: BudgetScope; key: string; stateKey: string; limit: BudgetLimit }> {
+    const date = utcDate(now);
+    this.rollOver(date);
+
+    const { config } = this;
+    const result: Array<{ scope: BudgetScope; key: string; stateKey: string; limit: BudgetLimit }> = [];
+
+    if (config.session) {
+      result.push({ scope: "session", key: keys.sessionKey, stateKey: `session:${keys.sessionKey}`, limit: config.session });
+    }
+    const agentLimit = config.agents[keys.agentId] || config.agent;
+    if (agentLimit) {
+      result.push({ scope: "agent", key: keys.agentId, stateKey: `agent:${date}:${keys.agentId}`, limit: agentLimit });
+    }
+    const channelLimit = config.channels[keys.channel] || config.channel;
+    if (channelLimit) {
+      result.push({ scope: "channel", key: keys.channel, stateKey: `channel:${date}:${keys.channel}`, limit: channelLimit });
+    }
+    if (config.day) {
+      result.push({ scope: "day", key: date, stateKey: `day:${date}`, limit: config.day });
+    }
+    return result;
+  }
+
+  /** Drop yesterday's daily budgets once the date changes */
+  private rollOver(date: string): void {
+    if (date === this.currentDate) return;
+    this.currentDate = date;
+    for (const key of this.states.keys()) {
+      if (!key.startsWith("session:") && !key.includes(`:${date}`)) {
+        this.states.delete(key);
+      }
+    }
+  }
+
+  private stateFor(stateKey: string): BudgetState {
+    let state = this.states.get(stateKey);
+    if (!state) {
+      state = { costUsd: 0, tokens: 0, crossed: new Set() };
+      this.states.set(stateKey, state);
+    }
+    return state;
+  }
+}
+
+function describe(crossing: BudgetCrossing): string {
+  const fmt = (v: number) => (crossing.metric === "cost" ? `$${v.toFixed(2)}` : `${Math.round(v)} tokens`);
+  return `${crossing.scope} budget "${crossing.key}" at ${Math.round(crossing.threshold * 100)}% (${fmt(crossing.used)} of ${fmt(crossing.limit)})`;
+}
+
+function crossingAttributes(crossing: BudgetCrossing): Record<string, string | number | boolean> {
+  return {
+    "openclaw.budget.scope": crossing.scope,
+    "openclaw.budget.key": crossing.key,
+    "openclaw.budget.metric": crossing.metric,
+    "openclaw.budget.threshold": crossing.threshold,
+    "openclaw.budget.used": crossing.used,
+    "openclaw.budget.limit": crossing.limit,
+    "openclaw.budget.block_tools": crossing.blockTools,
+  };
+}
+
+/**
+ * Report a threshold crossing as a span event, a log record and a metric.
+ */
+export function recordBudgetCrossing(
+  telemetry: TelemetryRuntime,
+  crossing: BudgetCrossing,
+  span?: Span
+): void {
+  const attributes = crossingAttributes(crossing);
+  const message = `Budget threshold crossed: ${describe(crossing)}`;
+
+  span?.addEvent("budget.threshold", attributes);
+  emitLogRecord(
+    telemetry.otelLogger,
+    crossing.threshold >= 1 ? "error" : "warn",
+    message,
+    attributes,
+    span,
+    "openclaw.budget.threshold"
+  );
+  telemetry.counters.budgetExceeded.add(1, {
+    scope: crossing.scope,
+    metric: crossing.metric,
+    threshold_pct: Math.round(crossing.threshold * 100),
+  });
+  telemetry.logger.debug?.(`[otel] ${message}`);
+}
+
+/**
+ * Record that a turn's tools are blocked because a budget is exhausted.
+ * Returns the notice handed to the agent.
+ */
+export function recordBudgetToolBlock(
+  telemetry: TelemetryRuntime,
+  crossing: BudgetCrossing,
+  span?: Span
+): string {
+  const attributes = crossingAttributes(crossing);
+  span?.setAttribute("openclaw.budget.tools_blocked", true);
+  span?.addEvent("budget.tools_blocked", attributes);
+  emitLogRecord(
+    telemetry.otelLogger,
+    "warn",
+    `Agent turn tools blocked: ${describe(crossing)}`,
+    attributes,
+    span,
+    "openclaw.budget.tools_blocked"
+  );
+  telemetry.logger.debug?.(`[otel] Agent turn tools blocked: ${describe(crossing)}`);
+
+  return (
+    `The ${crossing.scope} ${crossing.metric === "cost" ? "cost" : "token"} budget is exhausted ` +
+    `(${describe(crossing)}). Do not call any tools. Tell the user that no further work can be done until the budget resets or is raised.`
+  );
+}
@@ -2,15 +2,272 @@
  * Configuration types and defaults for the OTel Observability plugin.
  */
 
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { BUILTIN_RULE_IDS, type Severity } from "./security.js";
+
+export interface SamplingConfig {
+  /**
+   * 'always_on' (export everything), 'ratio' (head-sample openclaw.request roots)
+   * or 'tail' (buffer each trace until it ends, always keep interesting ones)
+   */
+  mode: "always_on" | "ratio" | "tail";
+  /** Fraction of traces to keep (0.0–1.0); in tail mode applies to uninteresting traces only */
+  ratio: number;
+  /** Tail mode: always keep traces containing an error span */
+  keepErrors: boolean;
+  /** Tail mode: always keep traces with a security detection */
+  keepSecurityEvents: boolean;
+  /** Tail mode: always keep traces whose cost reaches this many USD */
+  costThresholdUsd?: number;
+  /** Tail mode: always keep traces whose request duration reaches this many ms */
+  latencyThresholdMs?: number;
+  /** Tail mode: max traces held in memory awaiting a decision */
+  maxBufferedTraces: number;
+}
+
+export type RedactionStrategy = "mask" | "hash" | "drop";
+
+export type RedactionDetector = "api_key" | "jwt" | "email" | "phone" | "credit_card";
+
+const REDACTION_DETECTORS: RedactionDetector[] = ["api_key", "jwt", "email", "phone", "credit_card"];
+const REDACTION_STRATEGIES: RedactionStrategy[] = ["mask", "hash", "drop"];
+
+export interface RedactionPattern {
+  /** Name used in the replacement, e.g. [REDACTED:<name>] */
+  name: string;
+  /** Regular expression source */
+  pattern: string;
+  /** Regular expression flags — always includes "g", added if not configured */
+  flags: string;
+  /** Strategy for this pattern (defaults to the global strategy) */
+  strategy?: RedactionStrategy;
+}
+
+export interface RedactionConfig {
+  /** Redact content-bearing attributes before export */
+  enabled: boolean;
+  /** Built-in detectors to apply */
+  detectors: RedactionDetector[];
+  /** Default replacement strategy */
+  strategy: RedactionStrategy;
+  /** Additional user-supplied patterns */
+  patterns: RedactionPattern[];
+  /** HMAC key for the hash strategy — a literal or a ${env:…} / ${file:…} reference */
+  hashKey?: string;
+  /** Generated HMAC key, used when hashKey is not set */
+  hashKeyFile: string;
+}
+
+export interface SecurityRuleConfig {
+  /** Unique rule ID (must not clash with a built-in ID) */
+  id: string;
+  /** Regular expression source */
+  pattern: string;
+  /** Regular expression flags (default: "i") */
+  flags?: string;
+  severity?: Severity;
+  description?: string;
+}
+
+export interface SecurityConfig {
+  /** Optional JSON file with additional rules/allowlists (same shape as this section) */
+  rulesFile?: string;
+  /** Rule IDs (built-in or custom) to disable */
+  disabledRules: string[];
+  /** Rule ID → severity */
+  severityOverrides: Record<string, Severity>;
+  /** Custom rules per detection */
+  rules: {
+    sensitiveFiles: SecurityRuleConfig[];
+    promptInjection: SecurityRuleConfig[];
+    dangerousCommands: SecurityRuleConfig[];
+    secrets: SecurityRuleConfig[];
+  };
+  /** Never raise detections for these */
+  allowlist: {
+    /** File path regexes */
+    paths: string[];
+    /** Command regexes */
+    commands: string[];
+    /** Agent IDs (trailing "*" matches a prefix) */
+    agents: string[];
+    /** Session keys (trailing "*" matches a prefix) */
+    sessions: string[];
+  };
+}
+
+export interface FileExportConfig {
+  /** Directory the JSONL files are written to */
+  directory: string;
+  /** Start a new file once the current one reaches this size */
+  maxFileSizeBytes: number;
+  /** Start a new file once the current one is this old, in ms */
+  maxFileAgeMs: number;
+  /** Files kept per signal — the oldest are deleted */
+  maxFiles: number;
+}
+
+export interface RetryQueueConfig {
+  /** Persist batches the collector rejected or never received, and retry them */
+  enabled: boolean;
+  /** Directory the queued batches are stored in */
+  directory: string;
+  /** Oldest batches are dropped beyond this total size */
+  maxSizeBytes: number;
+  /** Batches older than this are dropped, in ms */
+  maxAgeMs: number;
+  /** First retry delay after a failure, in ms (doubles up to maxBackoffMs) */
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface PrometheusConfig {
+  /** Serve metrics for Prometheus to scrape (in addition to, or instead of, OTLP push) */
+  enabled: boolean;
+  /** Interface to listen on */
+  host: string;
+  port: number;
+  /** Scrape path */
+  endpoint: string;
+}
+
+export interface BudgetLimit {
+  /** Spend limit in USD */
+  costUsd?: number;
+  /** Token limit (input + output + cache) */
+  tokens?: number;
+  /**
+   * Once exhausted, tell new agent turns to stop and block their tool
+   * calls. A soft limit: the turn's model call itself still runs.
+   */
+  blockTools: boolean;
+}
+
+export interface BudgetsConfig {
+  /** Fractions of a limit at which a crossing is reported */
+  thresholds: number[];
+  /** Per session key, for the lifetime of the session */
+  session?: BudgetLimit;
+  /** Per agent, per calendar day (UTC) */
+  agent?: BudgetLimit;
+  /** Per channel, per calendar day (UTC) */
+  channel?: BudgetLimit;
+  /** Whole gateway, per calendar day (UTC) */
+  day?: BudgetLimit;
+  /** Agent ID → limit, replacing `agent` for that agent */
+  agents: Record<string, BudgetLimit>;
+  /** Channel → limit, replacing `channel` for that channel */
+  channels: Record<string, BudgetLimit>;
+}
+
+export interface PropagationConfig {
+  /** Continue traces from an inbound traceparent (message metadata, RPC params) */
+  inbound: boolean;
+  /** Inject the current trace context into tool calls */
+  outbound: boolean;
+  /** Tools that get TRACEPARENT/TRACESTATE/BAGGAGE in their `env` param */
+  envTools: string[];
+  /** Tools that get traceparent/tracestate/baggage in their `headers` param */
+  headerTools: string[];
+}
+
+export interface TimeoutsConfig {
+  /** An agent turn without agent_end is closed as orphaned after this long, in ms */
+  turnMs: number;
+  /** A request root span is closed as orphaned after this long, in ms */
+  requestMs: number;
+  /** A tool call without a persisted result is closed after this long, in ms */
+  toolMs: number;
+}
+
+export interface RecentTracesConfig {
+  /** Keep recently finished traces in memory for the traces.* Gateway methods */
+  enabled: boolean;
+  /** Traces kept; the oldest is dropped when a new one finishes */
+  maxTraces: number;
+  /** Spans kept per trace */
+  maxSpansPerTrace: number;
+}
+
+export interface SecretsConfig {
+  /** How often ${env:…} / ${file:…} header references are re-resolved, in ms (0 = only at startup) */
+  refreshIntervalMs: number;
+}
+
+export interface SessionsConfig {
+  /** A session with no agent turn or tool call for this long is ended, in ms */
+  idleTimeoutMs: number;
+}
+
+/** Prices for one model, in USD per million tokens */
+export interface ModelPrice {
+  provider: string;
+  model: string;
+  /** First day (YYYY-MM-DD, UTC) these prices apply */
+  effectiveFrom: string;
+  input: number;
+  output: number;
+  /** Defaults to the input price */
+  cacheRead?: number;
+  /** Defaults to the input price */
+  cacheWrite?: number;
+}
+
+export interface PricingConfig {
+  /** Prices replacing the bundled catalog for their provider/model */
+  models: ModelPrice[];
+  /** Relative difference between diagnostics and catalog cost that is reported */
+  crossCheckTolerance: number;
+}
+
+/** What enforcement does with a tool call that tripped a detection */
+export type EnforcementAction = "block" | "confirm" | "warn" | "allow";
+
+const ENFORCEMENT_ACTIONS: EnforcementAction[] = ["block", "confirm", "warn", "allow"];
+
+export interface EnforcementConfig {
+  /** Evaluate tool calls before they run (default: off — detection only) */
+  enabled: boolean;
+  /** Action per detection severity */
+  policy: Record<Severity, EnforcementAction>;
+  /** How long a call awaiting confirmation stays approvable, in ms */
+  confirmationTtlMs: number;
+}
+
+/** Overrides for one signal's export; unset fields fall back to the top-level ones */
+export interface SignalExportConfig {
+  /** Full URL for this signal, used as-is (nothing is appended) */
+  endpoint?: string;
+  protocol?: "http" | "grpc";
+  /** Merged over the top-level headers */
+  headers: Record<string, string>;
+  /** Export request timeout in ms */
+  timeoutMs?: number;
+}
+
+export interface SignalsConfig {
+  traces: SignalExportConfig;
+  metrics: SignalExportConfig;
+  logs: SignalExportConfig;
+}
+
 export interface OtelObservabilityConfig {
   /** OTLP endpoint URL */
   endpoint: string;
-  /** OTLP export protocol: 'http' (OTLP/HTTP) or 'grpc' (OTLP/gRPC) */
-  protocol: "http" | "grpc";
+  /** Export protocol: 'http' (OTLP/HTTP), 'grpc' (OTLP/gRPC) or 'file' (OTLP-JSON lines on disk) */
+  protocol: "http" | "grpc" | "file";
   /** OpenTelemetry service name */
   serviceName: string;
   /** Custom headers for OTLP export (e.g., Authorization for Dynatrace) */
   headers: Record<string, string>;
+  /** Export request timeout in milliseconds */
+  timeoutMs: number;
+  /** Per-signal endpoint, protocol, headers and timeout overrides */
+  signals: SignalsConfig;
+  /** Re-resolution of secret references in header values */
+  secrets: SecretsConfig;
   /** Enable trace export */
   traces: boolean;
   /** Enable metrics export */
@@ -23,6 +280,32 @@ export interface OtelObservabilityConfig {
   metricsIntervalMs: number;
   /** Additional OTel resource attributes */
   resourceAttributes: Record<string, string>;
+  /** Output directory and rotation for protocol 'file' */
+  file: FileExportConfig;
+  /** Disk-backed retry of failed OTLP exports */
+  retryQueue: RetryQueueConfig;
+  /** Prometheus scrape endpoint */
+  prometheus: PrometheusConfig;
+  /** Trace sampling */
+  sampling: SamplingConfig;
+  /** Redaction of captured prompt, completion and tool input content */
+  redaction: RedactionConfig;
+  /** Security detection rules and allowlists */
+  security: SecurityConfig;
+  /** Pre-execution blocking of risky tool calls */
+  enforcement: EnforcementConfig;
+  /** Cost and token budgets */
+  budgets: BudgetsConfig;
+  /** Model prices for cost estimation */
+  pricing: PricingConfig;
+  /** Session lifecycle tracking */
+  sessions: SessionsConfig;
+  /** W3C trace context propagation */
+  propagation: PropagationConfig;
+  /** When unfinished spans are closed as orphaned */
+  timeouts: TimeoutsConfig;
+  /** In-memory buffer of recently finished traces */
+  recentTraces: RecentTracesConfig;
 }
 
 const DEFAULTS: OtelObservabilityConfig = {
@@ -30,29 +313,735 @@ const DEFAULTS: OtelObservabilityConfig = {
   protocol: "http",
   serviceName: "openclaw-gateway",
   headers: {},
+  timeoutMs: 10_000,
+  signals: { traces: { headers: {} }, metrics: { headers: {} }, logs: { headers: {} } },
+  secrets: {
+    refreshIntervalMs: 60_000,
+  },
   traces: true,
   metrics: true,
   logs: true,
   captureContent: false,
   metricsIntervalMs: 30_000,
   resourceAttributes: {},
+  file: {
+    directory: join(homedir(), ".openclaw", "otel-export"),
+    maxFileSizeBytes: 10 * 1024 * 1024,
+    maxFileAgeMs: 60 * 60 * 1000,
+    maxFiles: 24,
+  },
+  retryQueue: {
+    enabled: false,
+    directory: join(homedir(), ".openclaw", "otel-queue"),
+    maxSizeBytes: 50 * 1024 * 1024,
+    maxAgeMs: 24 * 60 * 60 * 1000,
+    initialBackoffMs: 5_000,
+    maxBackoffMs: 5 * 60 * 1000,
+  },
+  prometheus: {
+    enabled: false,
+    host: "0.0.0.0",
+    port: 9464,
+    endpoint: "/metrics",
+  },
+  sampling: {
+    mode: "always_on",
+    ratio: 1,
+    keepErrors: true,
+    keepSecurityEvents: true,
+    maxBufferedTraces: 1000,
+  },
+  redaction: {
+    enabled: true,
+    detectors: REDACTION_DETECTORS,
+    strategy: "mask",
+    patterns: [],
+    hashKeyFile: join(homedir(), ".openclaw", "otel-redaction.key"),
+  },
+  security: {
+    disabledRules: [],
+    severityOverrides: {},
+    rules: { sensitiveFiles: [], promptInjection: [], dangerousCommands: [], secrets: [] },
+    allowlist: { paths: [], commands: [], agents: [], sessions: [] },
+  },
+  enforcement: {
+    enabled: false,
+    policy: { critical: "block", high: "confirm", warning: "warn", info: "allow" },
+    confirmationTtlMs: 10 * 60 * 1000,
+  },
+  budgets: {
+    thresholds: [0.5, 0.8, 1],
+    agents: {},
+    channels: {},
+  },
+  pricing: {
+    models: [],
+    crossCheckTolerance: 0.25,
+  },
+  sessions: {
+    idleTimeoutMs: 30 * 60 * 1000,
+  },
+  propagation: {
+    inbound: true,
+    outbound: false,
+    envTools: ["exec"],
+    headerTools: [],
+  },
+  timeouts: {
+    turnMs: 30 * 60 * 1000,
+    requestMs: 60 * 60 * 1000,
+    toolMs: 10 * 60 * 1000,
+  },
+  recentTraces: {
+    enabled: true,
+    maxTraces: 200,
+    maxSpansPerTrace: 100,
+  },
 };
 
-export function parseConfig(raw: unknown): OtelObservabilityConfig {
+const SEVERITIES: Severity[] = ["critical", "high", "warning", "info"];
+
+function configError(message: string): Error {
+  return new Error(`otel-observability: ${message}`);
+}
+
+function assertRegex(source: string, flags: string | undefined, where: string): void {
+  try {
+    new RegExp(source, flags);
+  } catch (err) {
+    throw configError(`${where} is not a valid regex: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function parseStringList(raw: unknown, where: string): string[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.some((v) => typeof v !== "string")) {
+    throw configError(`${where} must be an array of strings`);
+  }
+  return raw as string[];
+}
+
+function parseSecurityRules(raw: unknown, where: string): SecurityRuleConfig[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    throw configError(`${where} must be an array`);
+  }
+  return raw.map((entry: any, i: number) => {
+    const at = `${where}[${i}]`;
+    if (!entry || typeof entry.id !== "string" || !entry.id) {
+      throw configError(`${at}.id must be a non-empty string`);
+    }
+    if (typeof entry.pattern !== "string") {
+      throw configError(`${at}.pattern must be a string`);
+    }
+    if (entry.severity !== undefined && !SEVERITIES.includes(entry.severity)) {
+      throw configError(`${at}.severity must be one of ${SEVERITIES.join(", ")}`);
+    }
+    const flags = typeof entry.flags === "string" ? entry.flags : undefined;
+    // Rules are shared and run with .test() — a g or y flag would carry
+    // lastIndex from one call to the next and skip matches
+    if (flags && /[gy]/.test(flags)) {
+      throw configError(`${at}.flags must not include "g" or "y"`);
+    }
+    assertRegex(entry.pattern, flags ?? "i", at);
+    return {
+      id: entry.id,
+      pattern: entry.pattern,
+      flags,
+      severity: entry.severity,
+      description: typeof entry.description === "string" ? entry.description : undefined,
+    };
+  });
+}
+
+/** Parse one security section (inline config or rules file) without cross-checks */
+function parseSecuritySection(obj: Record<string, unknown>, where: string): Omit<SecurityConfig, "rulesFile"> {
+  const rules = (obj.rules && typeof obj.rules === "object" ? obj.rules : {}) as Record<string, unknown>;
+  const allowlist = (obj.allowlist && typeof obj.allowlist === "object" ? obj.allowlist : {}) as Record<string, unknown>;
+
+  const severityOverrides: Record<string, Severity> = {};
+  if (obj.severityOverrides && typeof obj.severityOverrides === "object") {
+    for (const [id, severity] of Object.entries(obj.severityOverrides)) {
+      if (!SEVERITIES.includes(severity as Severity)) {
+        throw configError(`${where}.severityOverrides.${id} must be one of ${SEVERITIES.join(", ")}`);
+      }
+      severityOverrides[id] = severity as Severity;
+    }
+  }
+
+  const paths = parseStringList(allowlist.paths, `${where}.allowlist.paths`);
+  const commands = parseStringList(allowlist.commands, `${where}.allowlist.commands`);
+  paths.forEach((p, i) => assertRegex(p, "i", `${where}.allowlist.paths[${i}]`));
+  commands.forEach((c, i) => assertRegex(c, "i", `${where}.allowlist.commands[${i}]`));
+
+  return {
+    disabledRules: parseStringList(obj.disabledRules, `${where}.disabledRules`),
+    severityOverrides,
+    rules: {
+      sensitiveFiles: parseSecurityRules(rules.sensitiveFiles, `${where}.rules.sensitiveFiles`),
+      promptInjection: parseSecurityRules(rules.promptInjection, `${where}.rules.promptInjection`),
+      dangerousCommands: parseSecurityRules(rules.dangerousCommands, `${where}.rules.dangerousCommands`),
+      secrets: parseSecurityRules(rules.secrets, `${where}.rules.secrets`),
+    },
+    allowlist: {
+      paths,
+      commands,
+      agents: parseStringList(allowlist.agents, `${where}.allowlist.agents`),
+      sessions: parseStringList(allowlist.sessions, `${where}.allowlist.sessions`),
+    },
+  };
+}
+
+function parseSecurity(raw: unknown): SecurityConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const rulesFile = typeof obj.rulesFile === "string" && obj.rulesFile ? obj.rulesFile : undefined;
+
+  const inline = parseSecuritySection(obj, "security");
+  let fromFile: Omit<SecurityConfig, "rulesFile"> = DEFAULTS.security;
+
+  if (rulesFile) {
+    let fileObj: unknown;
+    try {
+      fileObj = JSON.parse(readFileSync(rulesFile, "utf8"));
+    } catch (err) {
+      throw configError(`cannot load security.rulesFile ${rulesFile}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (!fileObj || typeof fileObj !== "object" || Array.isArray(fileObj)) {
+      throw configError(`security.rulesFile ${rulesFile} must contain a JSON object`);
+    }
+    fromFile = parseSecuritySection(fileObj as Record<string, unknown>, rulesFile);
+  }
+
+  // Rules file first, inline config on top
+  const merged: SecurityConfig = {
+    rulesFile,
+    disabledRules: [...fromFile.disabledRules, ...inline.disabledRules],
+    severityOverrides: { ...fromFile.severityOverrides, ...inline.severityOverrides },
+    rules: {
+      sensitiveFiles: [...fromFile.rules.sensitiveFiles, ...inline.rules.sensitiveFiles],
+      promptInjection: [...fromFile.rules.promptInjection, ...inline.rules.promptInjection],
+      dangerousCommands: [...fromFile.rules.dangerousCommands, ...inline.rules.dangerousCommands],
+      secrets: [...fromFile.rules.secrets, ...inline.rules.secrets],
+    },
+    allowlist: {
+      paths: [...fromFile.allowlist.paths, ...inline.allowlist.paths],
+      commands: [...fromFile.allowlist.commands, ...inline.allowlist.commands],
+      agents: [...fromFile.allowlist.agents, ...inline.allowlist.agents],
+      sessions: [...fromFile.allowlist.sessions, ...inline.allowlist.sessions],
+    },
+  };
+
+  // Cross-checks: unique custom IDs, and every referenced ID must exist
+  const knownIds = new Set(BUILTIN_RULE_IDS);
+  const customRules = [
+    ...merged.rules.sensitiveFiles,
+    ...merged.rules.promptInjection,
+    ...merged.rules.dangerousCommands,
+    ...merged.rules.secrets,
+  ];
+  for (const rule of customRules) {
+    if (knownIds.has(rule.id)) {
+      throw configError(`security rule id "${rule.id}" is already defined`);
+    }
+    knownIds.add(rule.id);
+  }
+  for (const id of [...merged.disabledRules, ...Object.keys(merged.severityOverrides)]) {
+    if (!knownIds.has(id)) {
+      throw configError(`unknown security rule id "${id}"`);
+    }
+  }
+
+  return merged;
+}
+
+function parseSampling(raw: unknown): SamplingConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.sampling;
+
+  return {
+    mode:
+      obj.mode === "ratio" || obj.mode === "tail" || obj.mode === "always_on"
+        ? obj.mode
+        : defaults.mode,
+    ratio:
+      typeof obj.ratio === "number" && obj.ratio >= 0 && obj.ratio <= 1
+        ? obj.ratio
+        : defaults.ratio,
+    keepErrors: typeof obj.keepErrors === "boolean" ? obj.keepErrors : defaults.keepErrors,
+    keepSecurityEvents:
+      typeof obj.keepSecurityEvents === "boolean"
+        ? obj.keepSecurityEvents
+        : defaults.keepSecurityEvents,
+    costThresholdUsd:
+      typeof obj.costThresholdUsd === "number" && obj.costThresholdUsd >= 0
+        ? obj.costThresholdUsd
+        : undefined,
+    latencyThresholdMs:
+      typeof obj.latencyThresholdMs === "number" && obj.latencyThresholdMs >= 0
+        ? obj.latencyThresholdMs
+        : undefined,
+    maxBufferedTraces:
+      typeof obj.maxBufferedTraces === "number" && obj.maxBufferedTraces >= 1
+        ? Math.floor(obj.maxBufferedTraces)
+        : defaults.maxBufferedTraces,
+  };
+}
+
+function parseRedaction(raw: unknown): RedactionConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.redaction;
+  const isStrategy = (v: unknown): v is RedactionStrategy =>
+    REDACTION_STRATEGIES.includes(v as RedactionStrategy);
+
+  const patterns: RedactionPattern[] = [];
+  if (Array.isArray(obj.patterns)) {
+    obj.patterns.forEach((entry: any, i: number) => {
+      if (!entry || typeof entry.pattern !== "string") {
+        throw configError(`redaction.patterns[${i}].pattern must be a string`);
+      }
+      const configured = typeof entry.flags === "string" ? entry.flags : "";
+      // Patterns replace every match; a sticky pattern would stop at the
+      // first gap and leave later matches in place
+      if (configured.includes("y")) {
+        throw configError(`redaction.patterns[${i}].flags must not include "y"`);
+      }
+      // Validate with the flags the redactor compiles it with
+      const flags = configured.includes("g") ? configured : `${configured}g`;
+      assertRegex(entry.pattern, flags, `redaction.patterns[${i}]`);
+      patterns.push({
+        name: typeof entry.name === "string" && entry.name ? entry.name : `pattern_${i}`,
+        pattern: entry.pattern,
+        flags,
+        strategy: isStrategy(entry.strategy) ? entry.strategy : undefined,
+      });
+    });
+  }
+
+  return {
+    enabled: typeof obj.enabled === "boolean" ? obj.enabled : defaults.enabled,
+    detectors: Array.isArray(obj.detectors)
+      ? obj.detectors.filter((d): d is RedactionDetector =>
+          REDACTION_DETECTORS.includes(d as RedactionDetector)
+        )
+      : defaults.detectors,
+    strategy: isStrategy(obj.strategy) ? obj.strategy : defaults.strategy,
+    patterns,
+    hashKey: typeof obj.hashKey === "string" && obj.hashKey ? obj.hashKey : undefined,
+    hashKeyFile:
+      typeof obj.hashKeyFile === "string" && obj.hashKeyFile
+        ? obj.hashKeyFile.replace(/^~(?=$|\/)/, homedir())
+        : defaults.hashKeyFile,
+  };
+}
+
+function parseFileExport(raw: unknown): FileExportConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.file;
+
+  return {
+    directory:
+      typeof obj.directory === "string" && obj.directory
+        ? obj.directory.replace(/^~(?=$|\/)/, homedir())
+        : defaults.directory,
+    maxFileSizeBytes:
+      typeof obj.maxFileSizeBytes === "number" && obj.maxFileSizeBytes >= 1024
+        ? obj.maxFileSizeBytes
+        : defaults.maxFileSizeBytes,
+    maxFileAgeMs:
+      typeof obj.maxFileAgeMs === "number" && obj.maxFileAgeMs >= 1000
+        ? obj.maxFileAgeMs
+        : defaults.maxFileAgeMs,
+    maxFiles:
+      typeof obj.maxFiles === "number" && obj.maxFiles >= 1
+        ? Math.floor(obj.maxFiles)
+        : defaults.maxFiles,
+  };
+}
+
+function parseRetryQueue(raw: unknown): RetryQueueConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.retryQueue;
+  const atLeast = (key: keyof RetryQueueConfig, min: number) =>
+    typeof obj[key] === "number" && (obj[key] as number) >= min ? (obj[key] as number) : (defaults[key] as number);
+
+  const initialBackoffMs = atLeast("initialBackoffMs", 100);
+  return {
+    enabled: typeof obj.enabled === "boolean" ? obj.enabled : defaults.enabled,
+    directory:
+      typeof obj.directory === "string" && obj.directory
+        ? obj.directory.replace(/^~(?=$|\/)/, homedir())
+        : defaults.directory,
+    maxSizeBytes: atLeast("maxSizeBytes", 1024),
+    maxAgeMs: atLeast("maxAgeMs", 1000),
+    initialBackoffMs,
+    maxBackoffMs: Math.max(initialBackoffMs, atLeast("maxBackoffMs", 100)),
+  };
+}
+
+function parsePrometheus(raw: unknown): PrometheusConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.prometheus;
+
+  if (obj.port !== undefined && (!Number.isInteger(obj.port) || (obj.port as number) < 1 || (obj.port as number) > 65535)) {
+    throw configError("prometheus.port must be an integer between 1 and 65535");
+  }
+  if (obj.endpoint !== undefined && (typeof obj.endpoint !== "string" || !obj.endpoint.startsWith("/"))) {
+    throw configError('prometheus.endpoint must be a path starting with "/"');
+  }
+
+  return {
+    enabled: typeof obj.enabled === "boolean" ? obj.enabled : defaults.enabled,
+    host: typeof obj.host === "string" && obj.host ? obj.host : defaults.host,
+    port: typeof obj.port === "number" ? obj.port : defaults.port,
+    endpoint: typeof obj.endpoint === "string" ? obj.endpoint : defaults.endpoint,
+  };
+}
+
+function parseBudgetLimit(raw: unknown, where: string): BudgetLimit | undefined {
+  if (raw === undefined) return undefined;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw configError(`${where} must be an object`);
+  }
+  const obj = raw as Record<string, unknown>;
+  for (const key of ["costUsd", "tokens"]) {
+    if (obj[key] !== undefined && (typeof obj[key] !== "number" || (obj[key] as number) <= 0)) {
+      throw configError(`${where}.${key} must be a positive number`);
+    }
+  }
+  if (obj.costUsd === undefined && obj.tokens === undefined) {
+    throw configError(`${where} needs costUsd and/or tokens`);
+  }
+  return {
+    costUsd: obj.costUsd as number | undefined,
+    tokens: obj.tokens as number | undefined,
+    blockTools: obj.blockTools === true,
+  };
+}
+
+function parseBudgetLimitMap(raw: unknown, where: string): Record<string, BudgetLimit> {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw configError(`${where} must be an object`);
+  }
+  const limits: Record<string, BudgetLimit> = {};
+  for (const [id, limit] of Object.entries(raw)) {
+    limits[id] = parseBudgetLimit(limit, `${where}.${id}`)!;
+  }
+  return limits;
+}
+
+function parseBudgets(raw: unknown): BudgetsConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+
+  let thresholds = DEFAULTS.budgets.thresholds;
+  if (obj.thresholds !== undefined) {
+    if (
+      !Array.isArray(obj.thresholds) ||
+      obj.thresholds.some((t) => typeof t !== "number" || t <= 0 || t > 1)
+    ) {
+      throw configError("budgets.thresholds must be an array of numbers in (0, 1]");
+    }
+    thresholds = [...new Set(obj.thresholds as number[])].sort((a, b) => a - b);
+  }
+
+  return {
+    thresholds,
+    session: parseBudgetLimit(obj.session, "budgets.session"),
+    agent: parseBudgetLimit(obj.agent, "budgets.agent"),
+    channel: parseBudgetLimit(obj.channel, "budgets.channel"),
+    day: parseBudgetLimit(obj.day, "budgets.day"),
+    agents: parseBudgetLimitMap(obj.agents, "budgets.agents"),
+    channels: parseBudgetLimitMap(obj.channels, "budgets.channels"),
+  };
+}
+
+function parseModelPrice(raw: unknown, where: string): ModelPrice {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw configError(`${where} must be an object`);
+  }
+  const obj = raw as Record<string, unknown>;
+  for (const key of ["provider", "model"]) {
+    if (typeof obj[key] !== "string" || !obj[key]) {
+      throw configError(`${where}.${key} must be a non-empty string`);
+    }
+  }
+  if (obj.effectiveFrom !== undefined && (typeof obj.effectiveFrom !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(obj.effectiveFrom))) {
+    throw configError(`${where}.effectiveFrom must be a YYYY-MM-DD date`);
+  }
+  for (const key of ["input", "output", "cacheRead", "cacheWrite"]) {
+    const required = key === "input" || key === "output";
+    if ((required || obj[key] !== undefined) && (typeof obj[key] !== "number" || (obj[key] as number) < 0)) {
+      throw configError(`${where}.${key} must be a non-negative number`);
+    }
+  }
+  return {
+    provider: obj.provider as string,
+    model: obj.model as string,
+    effectiveFrom: (obj.effectiveFrom as string | undefined) ?? "1970-01-01",
+    input: obj.input as number,
+    output: obj.output as number,
+    cacheRead: obj.cacheRead as number | undefined,
+    cacheWrite: obj.cacheWrite as number | undefined,
+  };
+}
+
+function parsePricing(raw: unknown): PricingConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.pricing;
+
+  if (obj.models !== undefined && !Array.isArray(obj.models)) {
+    throw configError("pricing.models must be an array");
+  }
+  const models = ((obj.models as unknown[] | undefined) ?? []).map((entry, i) =>
+    parseModelPrice(entry, `pricing.models[${i}]`)
+  );
+
+  return {
+    models,
+    crossCheckTolerance:
+      typeof obj.crossCheckTolerance === "number" && obj.crossCheckTolerance > 0
+        ? obj.crossCheckTolerance
+        : defaults.crossCheckTolerance,
+  };
+}
+
+function parseSessions(raw: unknown): SessionsConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+
+  return {
+    idleTimeoutMs:
+      typeof obj.idleTimeoutMs === "number" && obj.idleTimeoutMs >= 60_000
+        ? obj.idleTimeoutMs
+        : DEFAULTS.sessions.idleTimeoutMs,
+  };
+}
+
+function parseSecrets(raw: unknown): SecretsConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const interval = obj.refreshIntervalMs;
+
+  return {
+    refreshIntervalMs:
+      typeof interval === "number" && (interval === 0 || interval >= 1000)
+        ? interval
+        : DEFAULTS.secrets.refreshIntervalMs,
+  };
+}
+
+function parseTimeouts(raw: unknown): TimeoutsConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.timeouts;
+  const timeout = (key: keyof TimeoutsConfig) =>
+    typeof obj[key] === "number" && (obj[key] as number) >= 1000 ? (obj[key] as number) : defaults[key];
+
+  return {
+    turnMs: timeout("turnMs"),
+    requestMs: timeout("requestMs"),
+    toolMs: timeout("toolMs"),
+  };
+}
+
+function parseRecentTraces(raw: unknown): RecentTracesConfig {
   const obj =
     raw && typeof raw === "object" && !Array.isArray(raw)
       ? (raw as Record<string, unknown>)
       : {};
+  const defaults = DEFAULTS.recentTraces;
+  const count = (key: "maxTraces" | "maxSpansPerTrace") =>
+    typeof obj[key] === "number" && (obj[key] as number) >= 1 ? Math.floor(obj[key] as number) : defaults[key];
+
+  return {
+    enabled: typeof obj.enabled === "boolean" ? obj.enabled : defaults.enabled,
+    maxTraces: count("maxTraces"),
+    maxSpansPerTrace: count("maxSpansPerTrace"),
+  };
+}
+
+function parsePropagation(raw: unknown): PropagationConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.propagation;
+
+  return {
+    inbound: typeof obj.inbound === "boolean" ? obj.inbound : defaults.inbound,
+    outbound: typeof obj.outbound === "boolean" ? obj.outbound : defaults.outbound,
+    envTools: obj.envTools === undefined ? defaults.envTools : parseStringList(obj.envTools, "propagation.envTools"),
+    headerTools:
+      obj.headerTools === undefined ? defaults.headerTools : parseStringList(obj.headerTools, "propagation.headerTools"),
+  };
+}
+
+function parseEnforcement(raw: unknown): EnforcementConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const defaults = DEFAULTS.enforcement;
+
+  const policy = { ...defaults.policy };
+  if (obj.policy && typeof obj.policy === "object") {
+    for (const [severity, action] of Object.entries(obj.policy)) {
+      if (!SEVERITIES.includes(severity as Severity)) {
+        throw configError(`enforcement.policy.${severity} is not a severity (${SEVERITIES.join(", ")})`);
+      }
+      if (!ENFORCEMENT_ACTIONS.includes(action as EnforcementAction)) {
+        throw configError(`enforcement.policy.${severity} must be one of ${ENFORCEMENT_ACTIONS.join(", ")}`);
+      }
+      policy[severity as Severity] = action as EnforcementAction;
+    }
+  }
+
+  return {
+    enabled: typeof obj.enabled === "boolean" ? obj.enabled : defaults.enabled,
+    policy,
+    confirmationTtlMs:
+      typeof obj.confirmationTtlMs === "number" && obj.confirmationTtlMs >= 1000
+        ? obj.confirmationTtlMs
+        : defaults.confirmationTtlMs,
+  };
+}
+
+type Environment = Record<string, string | undefined>;
+
+/** A "key1=value1,key2=value2" list as used by OTEL_*_HEADERS and OTEL_RESOURCE_ATTRIBUTES */
+function parseKeyValueList(raw: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const item of (raw ?? "").split(",")) {
+    const eq = item.indexOf("=");
+    const key = item.slice(0, Math.max(eq, 0)).trim();
+    if (!key) continue;
+    const value = item.slice(eq + 1).trim();
+    // Values are percent-encoded
+    try {
+      result[key] = decodeURIComponent(value);
+    } catch {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/** OTEL_EXPORTER_OTLP_PROTOCOL values; both HTTP encodings map to "http" */
+function envProtocol(raw: string | undefined): "http" | "grpc" | undefined {
+  if (raw === "grpc") return "grpc";
+  if (raw === "http/protobuf" || raw === "http/json") return "http";
+  return undefined;
+}
+
+/** OTEL_EXPORTER_OTLP_TIMEOUT values, in ms */
+function envTimeout(raw: string | undefined): number | undefined {
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function stringRecord(raw: unknown): Record<string, string> {
+  return raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, string>) : {};
+}
+
+/**
+ * Plugin config first, then OTEL_EXPORTER_OTLP_<SIGNAL>_* — the top-level
+ * values (plugin config, then OTEL_EXPORTER_OTLP_*) apply to whatever is
+ * left unset here.
+ */
+function parseSignalExport(raw: unknown, signal: keyof SignalsConfig, env: Environment): SignalExportConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const prefix = `OTEL_EXPORTER_OTLP_${signal.toUpperCase()}_`;
+
+  return {
+    endpoint: typeof obj.endpoint === "string" && obj.endpoint ? obj.endpoint : env[`${prefix}ENDPOINT`] || undefined,
+    protocol: obj.protocol === "http" || obj.protocol === "grpc" ? obj.protocol : envProtocol(env[`${prefix}PROTOCOL`]),
+    headers: { ...parseKeyValueList(env[`${prefix}HEADERS`]), ...stringRecord(obj.headers) },
+    timeoutMs:
+      typeof obj.timeoutMs === "number" && obj.timeoutMs >= 1 ? obj.timeoutMs : envTimeout(env[`${prefix}TIMEOUT`]),
+  };
+}
+
+function parseSignals(raw: unknown, env: Environment): SignalsConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+
+  return {
+    traces: parseSignalExport(obj.traces, "traces", env),
+    metrics: parseSignalExport(obj.metrics, "metrics", env),
+    logs: parseSignalExport(obj.logs, "logs", env),
+  };
+}
+
+/**
+ * Parse the plugin config. Standard OTEL_* environment variables fill in
+ * what it leaves unset: per signal, a more specific setting wins
+ * (signals.<signal> over the top-level option), and at the same level the
+ * plugin config wins over the environment.
+ */
+export function parseConfig(raw: unknown, env: Environment = process.env): OtelObservabilityConfig {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+
+  // OTEL_SERVICE_NAME takes precedence over service.name in OTEL_RESOURCE_ATTRIBUTES
+  const { "service.name": envServiceName, ...envResourceAttributes } = parseKeyValueList(
+    env.OTEL_RESOURCE_ATTRIBUTES
+  );
 
   return {
-    endpoint: typeof obj.endpoint === "string" ? obj.endpoint : DEFAULTS.endpoint,
-    protocol: obj.protocol === "grpc" ? "grpc" : DEFAULTS.protocol,
+    endpoint:
+      typeof obj.endpoint === "string" ? obj.endpoint : env.OTEL_EXPORTER_OTLP_ENDPOINT || DEFAULTS.endpoint,
+    protocol:
+      obj.protocol === "http" || obj.protocol === "grpc" || obj.protocol === "file"
+        ? obj.protocol
+        : (envProtocol(env.OTEL_EXPORTER_OTLP_PROTOCOL) ?? DEFAULTS.protocol),
     serviceName:
-      typeof obj.serviceName === "string" ? obj.serviceName : DEFAULTS.serviceName,
-    headers:
-      obj.headers && typeof obj.headers === "object" && !Array.isArray(obj.headers)
-        ? (obj.headers as Record<string, string>)
-        : DEFAULTS.headers,
+      typeof obj.serviceName === "string"
+        ? obj.serviceName
+        : env.OTEL_SERVICE_NAME || envServiceName || DEFAULTS.serviceName,
+    headers: { ...parseKeyValueList(env.OTEL_EXPORTER_OTLP_HEADERS), ...stringRecord(obj.headers) },
+    timeoutMs:
+      typeof obj.timeoutMs === "number" && obj.timeoutMs >= 1
+        ? obj.timeoutMs
+        : (envTimeout(env.OTEL_EXPORTER_OTLP_TIMEOUT) ?? DEFAULTS.timeoutMs),
+    signals: parseSignals(obj.signals, env),
+    secrets: parseSecrets(obj.secrets),
     traces: typeof obj.traces === "boolean" ? obj.traces : DEFAULTS.traces,
     metrics: typeof obj.metrics === "boolean" ? obj.metrics : DEFAULTS.metrics,
     logs: typeof obj.logs === "boolean" ? obj.logs : DEFAULTS.logs,
@@ -62,11 +1051,19 @@ export function parseConfig(raw: unknown): OtelObservabilityConfig {
       typeof obj.metricsIntervalMs === "number" && obj.metricsIntervalMs >= 1000
         ? obj.metricsIntervalMs
         : DEFAULTS.metricsIntervalMs,
-    resourceAttributes:
-      obj.resourceAttributes &&
-      typeof obj.resourceAttributes === "object" &&
-      !Array.isArray(obj.resourceAttributes)
-        ? (obj.resourceAttributes as Record<string, string>)
-        : DEFAULTS.resourceAttributes,
+    resourceAttributes: { ...envResourceAttributes, ...stringRecord(obj.resourceAttributes) },
+    file: parseFileExport(obj.file),
+    retryQueue: parseRetryQueue(obj.retryQueue),
+    prometheus: parsePrometheus(obj.prometheus),
+    sampling: parseSampling(obj.sampling),
+    redaction: parseRedaction(obj.redaction),
+    security: parseSecurity(obj.security),
+    enforcement: parseEnforcement(obj.enforcement),
+    budgets: parseBudgets(obj.budgets),
+    pricing: parsePricing(obj.pricing),
+    sessions: parseSessions(obj.sessions),
+    propagation: parsePropagation(obj.propagation),
+    timeouts: parseTimeouts(obj.timeouts),
+    recentTraces: parseRecentTraces(obj.recentTraces),
   };
 }
@@ -7,8 +7,9 @@
  * - Official diagnostics: Accurate cost, token counts, context limits
  */
 
-import type { Span } from "@opentelemetry/api";
+import { SpanKind, SpanStatusCode, context, trace, type Span } from "@opentelemetry/api";
 import type { TelemetryRuntime } from "./telemetry.js";
+import { recordTurnUsage, type LlmCallUsage } from "./usage.js";
 
 // Import from OpenClaw plugin SDK (loaded lazily)
 let onDiagnosticEvent: ((listener: (evt: any) => void) => () => void) | null = null;
@@ -27,28 +28,6 @@ async function loadSdk(): Promise<void> {
   }
 }
 
-/** Pending usage data waiting to be attached to spans */
-interface PendingUsageData {
-  costUsd?: number;
-  usage: {
-    input?: number;
-    output?: number;
-    cacheRead?: number;
-    cacheWrite?: number;
-    total?: number;
-  };
-  context?: {
-    limit?: number;
-    used?: number;
-  };
-  durationMs?: number;
-  provider?: string;
-  model?: string;
-}
-
-/** Map of sessionKey → pending usage data from diagnostic events */
-const pendingUsageMap = new Map<string, PendingUsageData>();
-
 /** Map of sessionKey → active agent span (set by hooks.ts) */
 export const activeAgentSpans = new Map<string, Span>();
 
@@ -70,6 +49,9 @@ export async function registerDiagnosticsListener(
 
   const { counters, histograms } = telemetry;
 
+  // Models already reported for a cost mismatch — warn once each
+  const mismatchedModels = new Set<string>();
+
   const unsubscribe = onDiagnosticEvent((evt: any) => {
     if (evt.type !== "model.usage") return;
 
@@ -79,15 +61,37 @@ export async function registerDiagnosticsListener(
     const model = evt.model || "unknown";
     const provider = evt.provider || "unknown";
 
-    // Store for later attachment to agent span
-    pendingUsageMap.set(sessionKey, {
+    const callUsage: LlmCallUsage = {
       costUsd,
       usage,
       context: evt.context,
       durationMs: evt.durationMs,
       provider,
       model,
-    });
+    };
+
+    // Cross-check the reported cost against the pricing catalog
+    if (typeof costUsd === "number") {
+      const estimated = telemetry.pricing.estimate(provider, model, {
+        input: usage.input || 0,
+        output: usage.output || 0,
+        cacheRead: usage.cacheRead || 0,
+        cacheWrite: usage.cacheWrite || 0,
+      });
+      if (estimated !== undefined) {
+        callUsage.estimatedCostUsd = estimated;
+        callUsage.costMismatch = telemetry.pricing.isMismatch(costUsd, estimated);
+        if (callUsage.costMismatch && !mismatchedModels.has(model)) {
+          mismatchedModels.add(model);
+          logger.warn?.(
+            `[otel] Reported cost for ${provider}/${model} ($${costUsd.toFixed(4)}) differs from the pricing catalog ($${estimated.toFixed(4)}) — check pricing.models`
+          );
+        }
+      }
+    }
+
+    // Accumulate into the in-flight turn — agent_end finalizes the totals
+    recordTurnUsage(sessionKey, callUsage);
 
     // Record metrics immediately (don't wait for span)
     const metricAttrs = {
@@ -113,10 +117,7 @@ export async function registerDiagnosticsListener(
 
     // Record cost metric
     if (typeof costUsd === "number" && costUsd > 0) {
-      telemetry.meter.createCounter("openclaw.llm.cost.usd", {
-        description: "Estimated LLM cost in USD",
-        unit: "usd",
-      }).add(costUsd, metricAttrs);
+      counters.llmCost.add(costUsd, metricAttrs);
     }
 
     // Record LLM duration
@@ -126,11 +127,11 @@ export async function registerDiagnosticsListener(
 
     counters.llmRequests.add(1, metricAttrs);
 
-    // If we have an active agent span for this session, enrich it now
+    // If we have an active agent span for this session, record this call
+    // as its own child span
     const agentSpan = activeAgentSpans.get(sessionKey);
     if (agentSpan) {
-      enrichSpanWithUsage(agentSpan, evt);
-      pendingUsageMap.delete(sessionKey);
+      recordLlmCallSpan(telemetry, agentSpan, callUsage);
     }
 
     logger.debug?.(`[otel] model.usage: session=${sessionKey}, model=${model}, cost=$${costUsd?.toFixed(4) || "?"}, tokens=${usage.total || "?"}`);
@@ -141,21 +142,9 @@ export async function registerDiagnosticsListener(
 }
 
 /**
- * Get pending usage data for a session (if any).
- * Called by agent_end hook to attach data to span.
+ * Enrich a span with usage data from a single diagnostic event.
  */
-export function getPendingUsage(sessionKey: string): PendingUsageData | undefined {
-  const data = pendingUsageMap.get(sessionKey);
-  if (data) {
-    pendingUsageMap.delete(sessionKey);
-  }
-  return data;
-}
-
-/**
- * Enrich a span with usage data from diagnostic event.
- */
-export function enrichSpanWithUsage(span: Span, data: PendingUsageData): void {
+export function enrichSpanWithUsage(span: Span, data: LlmCallUsage): void {
   const usage = data.usage || {};
 
   // GenAI semantic convention attributes
@@ -179,6 +168,12 @@ export function enrichSpanWithUsage(span: Span, data: PendingUsageData): void {
   if (data.costUsd !== undefined) {
     span.setAttribute("openclaw.llm.cost_usd", data.costUsd);
   }
+  if (data.estimatedCostUsd !== undefined) {
+    span.setAttribute("openclaw.llm.cost_estimated_usd", data.estimatedCostUsd);
+  }
+  if (data.costMismatch) {
+    span.setAttribute("openclaw.llm.cost_mismatch", true);
+  }
 
   // Context window
   if (data.context?.limit !== undefined) {
@@ -197,6 +192,47 @@ export function enrichSpanWithUsage(span: Span, data: PendingUsageData): void {
   }
 }
 
+/**
+ * Synthesize a GenAI chat span for a single LLM call under the agent turn.
+ *
+ * model.usage fires once the call has completed, so the span is back-dated
+ * by durationMs to reflect the real call latency.
+ */
+export function recordLlmCallSpan(
+  telemetry: TelemetryRuntime,
+  agentSpan: Span,
+  data: LlmCallUsage
+): void {
+  const endTime = Date.now();
+  const startTime =
+    typeof data.durationMs === "number" && data.durationMs > 0
+      ? endTime - data.durationMs
+      : endTime;
+  const model = data.model || "unknown";
+
+  const parentContext = trace.setSpan(context.active(), agentSpan);
+  const span = telemetry.tracer.startSpan(
+    `chat ${model}`,
+    {
+      kind: SpanKind.CLIENT,
+      startTime,
+      attributes: {
+        "gen_ai.operation.name": "chat",
+        "gen_ai.request.model": model,
+      },
+    },
+    parentContext
+  );
+
+  enrichSpanWithUsage(span, data);
+  if (typeof data.durationMs === "number") {
+    span.setAttribute("openclaw.llm.duration_ms", data.durationMs);
+  }
+
+  span.setStatus({ code: SpanStatusCode.OK });
+  span.end(endTime);
+}
+
 /**
  * Check if diagnostic events are available.
  * Note: Only accurate after registerDiagnosticsListener() has been called.
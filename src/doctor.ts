@@ -0,0 +1,451 @@
+/**
+ * `openclaw otel test` and `openclaw otel doctor` — diagnostics for when
+ * telemetry does not show up in the backend.
+ *
+ * test:   builds the configured exporters, sends one synthetic span, metric
+ *         and log record through each, and reports per-signal success,
+ *         latency and the HTTP status / gRPC code and response on failure.
+ *         The SDK providers used for this are private to the test — nothing
+ *         is registered globally.
+ *
+ * doctor: checks the configuration and connectivity for common mistakes —
+ *         endpoint reachability, signal paths in the endpoint, protocol/port
+ *         mix-ups, malformed headers and diagnostics API availability. The
+ *         gateway checks (OTEL_* variables in effect, preload status and
+ *         global providers registered by another SDK) look at the process
+ *         they run in, so the CLI asks the gateway to run them.
+ */
+
+import { connect } from "node:net";
+import { accessSync, constants, mkdirSync } from "node:fs";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import { MeterProvider, MetricReader } from "@opentelemetry/sdk-metrics";
+import { InMemoryLogRecordExporter, LoggerProvider, SimpleLogRecordProcessor } from "@opentelemetry/sdk-logs";
+import type { OtelObservabilityConfig } from "./config.js";
+import { checkDiagnosticsSupport } from "./diagnostics.js";
+import { hasSecretRef, maskSecrets, resolveHeaders, resolveSecretRefs } from "./secrets.js";
+import {
+  createLogExporter,
+  createMetricExporter,
+  createSpanExporter,
+  signalExport,
+  telemetryResource,
+} from "./telemetry.js";
+
+type Signal = "traces" | "metrics" | "logs";
+
+const SIGNALS: Signal[] = ["traces", "metrics", "logs"];
+
+/** Upper bound for one test export, on top of the exporter's own timeout */
+const TEST_TIMEOUT_MS = 15_000;
+
+/** Upper bound for the TCP reachability check */
+const CONNECT_TIMEOUT_MS = 3_000;
+
+/** RFC 9110 field-name token */
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export interface SignalTestResult {
+  signal: Signal;
+  target: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+  /** HTTP status or gRPC status code */
+  code?: number | string;
+  /** Response body the collector sent with the error */
+  details?: string;
+}
+
+export type CheckLevel = "ok" | "info" | "warn" | "error";
+
+export interface DoctorCheck {
+  name: string;
+  level: CheckLevel;
+  message: string;
+}
+
+// ── test ────────────────────────────────────────────────────────────
+
+/** Collects on demand only — used to snapshot the test metric */
+class OneShotMetricReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+/** Run one export, bounded by TEST_TIMEOUT_MS */
+function exportOnce(send: (done: (result: ExportResult) => void) => void): Promise<ExportResult> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(
+      () => resolve({ code: ExportResultCode.FAILED, error: new Error(`no response within ${TEST_TIMEOUT_MS}ms`) }),
+      TEST_TIMEOUT_MS
+    );
+    send((result) => {
+      clearTimeout(timer);
+      resolve(result);
+    });
+  });
+}
+
+function toResult(signal: Signal, target: string, startedAt: number, result: ExportResult): SignalTestResult {
+  const latencyMs = Math.round(performance.now() - startedAt);
+  if (result.code === ExportResultCode.SUCCESS) return { signal, target, ok: true, latencyMs };
+  const error = result.error as (Error & { code?: number | string; data?: string }) | undefined;
+  return {
+    signal,
+    target,
+    ok: false,
+    latencyMs,
+    error: error?.message || "export failed",
+    code: error?.code,
+    details: error?.data || undefined,
+  };
+}
+
+async function testTraces(
+  config: OtelObservabilityConfig,
+  target: string,
+  headers: Record<string, string>
+): Promise<SignalTestResult> {
+  const memory = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    resource: telemetryResource(config),
+    spanProcessors: [new SimpleSpanProcessor(memory)],
+  });
+  const span = provider.getTracer("openclaw-observability", "0.1.0").startSpan("openclaw.otel.test", {
+    attributes: { "openclaw.otel.test": true },
+  });
+  span.setStatus({ code: SpanStatusCode.OK });
+  span.end();
+  const spans = memory.getFinishedSpans();
+  await provider.shutdown();
+
+  const exporter = createSpanExporter(config, headers);
+  const startedAt = performance.now();
+  const result = await exportOnce((done) => exporter.export(spans, done));
+  await exporter.shutdown().catch(() => {});
+  return toResult("traces", target, startedAt, result);
+}
+
+async function testMetrics(
+  config: OtelObservabilityConfig,
+  target: string,
+  headers: Record<string, string>
+): Promise<SignalTestResult> {
+  const reader = new OneShotMetricReader();
+  const provider = new MeterProvider({ resource: telemetryResource(config), readers: [reader] });
+  provider
+    .getMeter("openclaw-observability", "0.1.0")
+    .createCounter("openclaw.otel.test", { description: "Synthetic metric sent by `openclaw otel test`" })
+    .add(1);
+  const { resourceMetrics } = await reader.collect();
+  await provider.shutdown();
+
+  const exporter = createMetricExporter(config, headers);
+  const startedAt = performance.now();
+  const result = await exportOnce((done) => exporter.export(resourceMetrics, done));
+  await exporter.shutdown().catch(() => {});
+  return toResult("metrics", target, startedAt, result);
+}
+
+async function testLogs(
+  config: OtelObservabilityConfig,
+  target: string,
+  headers: Record<string, string>
+): Promise<SignalTestResult> {
+  const memory = new InMemoryLogRecordExporter();
+  const provider = new LoggerProvider({
+    resource: telemetryResource(config),
+    processors: [new SimpleLogRecordProcessor(memory)],
+  });
+  provider.getLogger("openclaw-observability", "0.1.0").emit({
+    severityText: "INFO",
+    body: "OpenClaw OTel test log record",
+    attributes: { "openclaw.otel.test": true },
+  });
+  const logs = memory.getFinishedLogRecords();
+  await provider.shutdown();
+
+  const exporter = createLogExporter(config, headers);
+  const startedAt = performance.now();
+  const result = await exportOnce((done) => exporter.export(logs, done));
+  await exporter.shutdown().catch(() => {});
+  return toResult("logs", target, startedAt, result);
+}
+
+/**
+ * Send a synthetic span, metric and log record through the configured
+ * exporters — one per enabled signal, one after the other. Header secret
+ * references are resolved here; their values are masked in the results.
+ */
+export async function runExportTest(config: OtelObservabilityConfig): Promise<SignalTestResult[]> {
+  const tests = { traces: testTraces, metrics: testMetrics, logs: testLogs };
+  const secrets = new Set<string>();
+  const results: SignalTestResult[] = [];
+  for (const signal of SIGNALS) {
+    if (!config[signal]) continue;
+    const { protocol, target, headers } = signalExport(config, signal);
+    let result: SignalTestResult;
+    try {
+      result = await tests[signal](config, target, protocol === "file" ? {} : resolveHeaders(headers, secrets));
+    } catch (err) {
+      result = { signal, target, ok: false, latencyMs: 0, error: err instanceof Error ? err.message : String(err) };
+    }
+    if (result.error) result.error = maskSecrets(result.error, secrets);
+    if (result.details) result.details = maskSecrets(result.details, secrets);
+    results.push(result);
+  }
+  return results;
+}
+
+// ── doctor ──────────────────────────────────────────────────────────
+
+function parseEndpoint(endpoint: string): URL | undefined {
+  try {
+    // gRPC endpoints are often given as host:port
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(endpoint) ? endpoint : `http://${endpoint}`);
+  } catch {
+    return undefined;
+  }
+}
+
+function checkReachable(host: string, port: number): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const socket = connect({ host, port });
+    const finish = (error?: string) => {
+      socket.destroy();
+      resolve(error);
+    };
+    socket.setTimeout(CONNECT_TIMEOUT_MS, () => finish(`no answer within ${CONNECT_TIMEOUT_MS}ms`));
+    socket.once("connect", () => finish());
+    socket.once("error", (err) => finish(err.message));
+  });
+}
+
+/** Path of the top-level endpoint, which gets /v1/<signal> appended for http */
+function checkEndpointPath(config: OtelObservabilityConfig): DoctorCheck[] {
+  const url = parseEndpoint(config.endpoint);
+  if (!url) {
+    return [{ name: "endpoint", level: "error", message: `"${config.endpoint}" is not a valid URL` }];
+  }
+  const path = url.pathname.replace(/\/+$/, "");
+  const signalPath = /\/v1\/(traces|metrics|logs)$/.exec(path);
+  if (signalPath && config.protocol === "http") {
+    return [
+      {
+        name: "endpoint path",
+        level: "error",
+        message:
+          `endpoint ends in ${signalPath[0]}, but /v1/<signal> is appended per signal — use ` +
+          `${url.origin}${path.slice(0, -signalPath[0].length)} (or signals.<signal>.endpoint for a full URL)`,
+      },
+    ];
+  }
+  if (path && config.protocol === "grpc") {
+    return [{ name: "endpoint path", level: "warn", message: `gRPC ignores the path "${path}" — use ${url.origin}` }];
+  }
+  return [{ name: "endpoint path", level: "ok", message: config.protocol === "http" ? `${path || "/"} + /v1/<signal>` : "no path" }];
+}
+
+async function checkEndpoint(config: OtelObservabilityConfig): Promise<DoctorCheck[]> {
+  if (config.protocol === "file") {
+    try {
+      mkdirSync(config.file.directory, { recursive: true });
+      accessSync(config.file.directory, constants.W_OK);
+      return [{ name: "directory", level: "ok", message: `${config.file.directory} is writable` }];
+    } catch (err) {
+      return [{ name: "directory", level: "error", message: `${config.file.directory}: ${(err as Error).message}` }];
+    }
+  }
+
+  const enabled = SIGNALS.filter((signal) => config[signal]);
+  const checks: DoctorCheck[] = [];
+  if (enabled.some((signal) => !config.signals[signal].endpoint)) {
+    checks.push(...checkEndpointPath(config));
+  }
+
+  // Port and reachability once per distinct collector
+  const seen = new Set<string>();
+  for (const signal of enabled) {
+    const { protocol, target } = signalExport(config, signal);
+    const url = parseEndpoint(target);
+    if (!url) {
+      if (config.signals[signal].endpoint) {
+        checks.push({ name: `${signal} endpoint`, level: "error", message: `"${target}" is not a valid URL` });
+      }
+      continue;
+    }
+    const port = Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+    const key = `${protocol} ${url.hostname}:${port}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (protocol === "http" && port === 4317) {
+      checks.push({ name: "port", level: "warn", message: `${signal}: 4317 is the OTLP/gRPC port — OTLP/HTTP usually listens on 4318` });
+    } else if (protocol === "grpc" && port === 4318) {
+      checks.push({ name: "port", level: "warn", message: `${signal}: 4318 is the OTLP/HTTP port — OTLP/gRPC usually listens on 4317` });
+    }
+
+    const error = await checkReachable(url.hostname, port);
+    checks.push(
+      error
+        ? { name: "reachability", level: "error", message: `${url.hostname}:${port} — ${error}` }
+        : { name: "reachability", level: "ok", message: `${url.hostname}:${port} accepts connections` }
+    );
+  }
+  return checks;
+}
+
+function checkHeaders(config: OtelObservabilityConfig): DoctorCheck[] {
+  if (config.protocol === "file") {
+    return [{ name: "headers", level: "info", message: "headers are ignored with protocol \"file\"" }];
+  }
+  const entries = [config.headers, ...SIGNALS.map((signal) => config.signals[signal].headers)].flatMap((headers) =>
+    Object.entries(headers)
+  );
+  if (entries.length === 0) {
+    return [{ name: "headers", level: "info", message: "no headers configured" }];
+  }
+  const problems: string[] = [];
+  let references = 0;
+  for (const [name, raw] of entries) {
+    if (!HEADER_NAME.test(name)) problems.push(`"${name}" is not a valid header name`);
+    // Check what is actually sent; resolved values are never printed
+    let value = raw;
+    if (hasSecretRef(raw)) {
+      references += 1;
+      try {
+        value = resolveSecretRefs(raw);
+      } catch (err) {
+        problems.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+        continue;
+      }
+    }
+    if (/[\r\n\0]/.test(value)) problems.push(`${name} contains a line break or NUL`);
+    else if (value.trim() === "") problems.push(`${name} is empty`);
+    else if (value !== value.trim()) problems.push(`${name} has leading/trailing whitespace`);
+    else if (/^(bearer|basic|api-token)$/i.test(value.split(" ")[0]) && !value.includes(" ")) {
+      problems.push(`${name} has a scheme ("${value}") but no credentials`);
+    }
+  }
+  if (problems.length) {
+    return problems.map((message) => ({ name: "headers", level: "error" as const, message }));
+  }
+  const checks: DoctorCheck[] = [
+    {
+      name: "headers",
+      level: "ok",
+      message: `${entries.length} header(s) well-formed${references ? `, ${references} secret reference(s) resolved` : ""}`,
+    },
+  ];
+  // gRPC exporters take their metadata once; only HTTP ones see rotated values
+  const grpcSignals = SIGNALS.filter((signal) => signalExport(config, signal).protocol === "grpc");
+  if (references && grpcSignals.length && config.secrets.refreshIntervalMs > 0) {
+    checks.push({
+      name: "headers",
+      level: "warn",
+      message: `${grpcSignals.join(", ")} export over gRPC — rotated secret values reach them only after a gateway restart`,
+    });
+  }
+  return checks;
+}
+
+/** OTEL_* variables that feed into the config (names only — headers hold secrets) */
+function checkEnvironment(): DoctorCheck {
+  const names = Object.keys(process.env)
+    .filter((name) => /^OTEL_(EXPORTER_OTLP_|SERVICE_NAME$|RESOURCE_ATTRIBUTES$)/.test(name) && process.env[name])
+    .sort();
+  return {
+    name: "environment",
+    level: "info",
+    message: names.length
+      ? `${names.join(", ")} (plugin config takes precedence)`
+      : "no OTEL_* variables set",
+  };
+}
+
+/** Where preload.mjs sends its spans, resolved as it does */
+function preloadTarget(): string {
+  return (
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+    `${(process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318").replace(/\/+$/, "")}/v1/traces`
+  );
+}
+
+function checkPreload(config: OtelObservabilityConfig): DoctorCheck[] {
+  const active = (globalThis as any).__OPENCLAW_OTEL_PRELOAD_ACTIVE === true;
+  const configured = /preload\.mjs/.test(process.env.NODE_OPTIONS ?? "");
+  if (!active) {
+    return [
+      {
+        name: "preload",
+        level: "info",
+        message: configured
+          ? "NODE_OPTIONS names preload.mjs, but it did not run in the gateway"
+          : "not configured — LLM SDK calls are not auto-instrumented (hook-based spans still work)",
+      },
+    ];
+  }
+
+  const checks: DoctorCheck[] = [{ name: "preload", level: "ok", message: "GenAI instrumentation active" }];
+  const preload = preloadTarget();
+  const traces = signalExport(config, "traces");
+  if (traces.protocol !== "http" || preload !== traces.target) {
+    checks.push({
+      name: "preload",
+      level: "warn",
+      message: `preload exports to ${preload} (OTLP/HTTP), the plugin to ${traces.target} (${traces.protocol})`,
+    });
+  }
+  return checks;
+}
+
+async function checkDiagnostics(): Promise<DoctorCheck> {
+  return (await checkDiagnosticsSupport())
+    ? { name: "diagnostics", level: "ok", message: "openclaw/plugin-sdk diagnostic events available (reported cost)" }
+    : {
+        name: "diagnostics",
+        level: "warn",
+        message: "openclaw/plugin-sdk diagnostic events unavailable — cost is estimated from the pricing catalog",
+      };
+}
+
+/** Signals with a global provider registered in this process */
+function registeredGlobals(): string[] {
+  const api = (globalThis as any)[Symbol.for("opentelemetry.js.api.1")] ?? {};
+  const registered: string[] = [];
+  if (api.trace) registered.push("tracer");
+  if (api.metrics) registered.push("meter");
+  if ((globalThis as any)[Symbol.for("io.opentelemetry.js.api.logs")]) registered.push("logger");
+  return registered;
+}
+
+function checkGlobalProviders(telemetryActive: boolean): DoctorCheck {
+  const registered = registeredGlobals();
+  if (telemetryActive || registered.length === 0) {
+    return { name: "global providers", level: "ok", message: telemetryActive ? "registered by this plugin" : "none registered" };
+  }
+  return {
+    name: "global providers",
+    level: "warn",
+    message:
+      `another SDK registered global ${registered.join("/")} provider(s) — the plugin cannot register its own, ` +
+      "so its telemetry goes to that SDK's exporters",
+  };
+}
+
+/** Check configuration and connectivity; runs anywhere the config is loaded */
+export async function runDoctor(config: OtelObservabilityConfig): Promise<DoctorCheck[]> {
+  return [...(await checkEndpoint(config)), ...checkHeaders(config), await checkDiagnostics()];
+}
+
+/**
+ * Check the process telemetry runs in — call it in the gateway.
+ * `telemetryActive` tells whether this plugin's telemetry runs there (so
+ * globals are its own).
+ */
+export function runGatewayChecks(config: OtelObservabilityConfig, telemetryActive: boolean): DoctorCheck[] {
+  return [checkEnvironment(), ...checkPreload(config), checkGlobalProviders(telemetryActive)];
+}
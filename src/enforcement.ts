@@ -0,0 +1,175 @@
+/**
+ * Enforcement mode — evaluates the tool security detections BEFORE a tool
+ * runs (before_tool_call) instead of only recording them afterwards.
+ *
+ * Each detection severity maps to an action:
+ *   - block:   the call is refused
+ *   - confirm: the call is refused until the user has confirmed it. The
+ *              agent is told to ask the user to reply "/approve <id>",
+ *              where the id is a random nonce issued for the held call.
+ *              Once a user message consisting of just that command arrives,
+ *              the same call (same tool + params) retried in the session
+ *              within the TTL is let through once.
+ *   - warn:    the call runs, the decision is recorded
+ *   - allow:   the call runs, nothing is recorded here (the post-execution
+ *              detection still fires)
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { Span } from "@opentelemetry/api";
+import type { EnforcementAction, EnforcementConfig } from "./config.js";
+import type { SecurityEvent } from "./security.js";
+import { passthroughRedactor, type Redactor } from "./redaction.js";
+
+export interface EnforcementDecision {
+  action: EnforcementAction;
+  /** True when a previously requested confirmation let the call through */
+  confirmed: boolean;
+  /** Message returned to the agent when the call is refused */
+  reason?: string;
+}
+
+interface PendingConfirmation {
+  sessionKey: string;
+  /** Random id the user quotes to approve the call — not derivable from the call */
+  id: string;
+  requestedAt: number;
+  /** Set once the user has replied "/approve <id>" for this call */
+  approved: boolean;
+}
+
+/** Map of sessionKey + call fingerprint → confirmation state */
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+function fingerprint(toolName: string, params: unknown): string {
+  return createHash("sha256")
+    .update(toolName)
+    .update("\0")
+    .update(JSON.stringify(params ?? {}))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function pruneExpired(ttlMs: number, now: number): void {
+  for (const [key, pending] of pendingConfirmations) {
+    if (now - pending.requestedAt > ttlMs) {
+      pendingConfirmations.delete(key);
+    }
+  }
+}
+
+/** The whole message must be the command — quoted or pasted text never approves */
+const APPROVE_MESSAGE = /^\/approve\s+([0-9a-f]{8})$/i;
+
+/**
+ * Approve the held call of this session whose id the user's message
+ * quotes, when the message is nothing but "/approve <id>". Anything else —
+ * a plain "yes", a new question, the command inside other text — leaves
+ * the calls pending, as does an id that has expired. Returns the approved id.
+ */
+export function approvePendingConfirmations(
+  sessionKey: string,
+  message: unknown,
+  ttlMs: number,
+  now = Date.now()
+): string | undefined {
+  if (typeof message !== "string") return undefined;
+  const match = APPROVE_MESSAGE.exec(message.trim());
+  if (!match) return undefined;
+
+  pruneExpired(ttlMs, now);
+  const id = match[1].toLowerCase();
+  for (const pending of pendingConfirmations.values()) {
+    if (pending.sessionKey === sessionKey && pending.id === id && !pending.approved) {
+      pending.approved = true;
+      return id;
+    }
+  }
+  return undefined;
+}
+
+/** Forget every held call — used on shutdown and in tests */
+export function clearPendingConfirmations(): void {
+  pendingConfirmations.clear();
+}
+
+/**
+ * Decide what to do with a tool call that tripped a detection.
+ */
+export function decideEnforcement(
+  event: SecurityEvent,
+  toolName: string,
+  params: unknown,
+  config: EnforcementConfig
+): EnforcementDecision {
+  const action = config.policy[event.severity];
+
+  if (action === "block") {
+    return {
+      action,
+      confirmed: false,
+      reason: `Blocked by security policy: ${event.description} (${event.detection}, ${event.severity})`,
+    };
+  }
+
+  if (action !== "confirm") {
+    return { action, confirmed: false };
+  }
+
+  const now = Date.now();
+  pruneExpired(config.confirmationTtlMs, now);
+
+  const key = `${event.sessionKey}\0${fingerprint(toolName, params)}`;
+  let pending = pendingConfirmations.get(key);
+  if (pending?.approved) {
+    pendingConfirmations.delete(key);
+    return { action, confirmed: true };
+  }
+  // A retry while still held keeps its id; after the TTL a new one is issued
+  if (!pending) {
+    pending = {
+      sessionKey: event.sessionKey,
+      id: randomBytes(4).toString("hex"),
+      requestedAt: now,
+      approved: false,
+    };
+    pendingConfirmations.set(key, pending);
+  }
+
+  return {
+    action,
+    confirmed: false,
+    reason:
+      `Security policy requires user confirmation: ${event.description} (${event.detection}, ${event.severity}). ` +
+      `Ask the user to confirm this exact call by replying with only "/approve ${pending.id}"; once they have, retry it unchanged.`,
+  };
+}
+
+/** Whether the decision stops the tool call from running */
+export function isBlocking(decision: EnforcementDecision): boolean {
+  return (decision.action === "block" || decision.action === "confirm") && !decision.confirmed;
+}
+
+/**
+ * Record the decision as a "security.enforcement" span event.
+ * The description (file path, command summary) goes through the redactor.
+ */
+export function recordEnforcementEvent(
+  span: Span,
+  event: SecurityEvent,
+  decision: EnforcementDecision,
+  toolName: string,
+  toolCallId?: string,
+  redact: Redactor = passthroughRedactor
+): void {
+  span.addEvent("security.enforcement", {
+    "security.enforcement.action": decision.action,
+    "security.enforcement.blocked": isBlocking(decision),
+    "security.enforcement.confirmed": decision.confirmed,
+    "security.event.detection": event.detection,
+    "security.event.severity": event.severity,
+    "security.event.description": redact(event.description) ?? "[REDACTED]",
+    "openclaw.tool.name": toolName,
+    ...(toolCallId ? { "openclaw.tool.call_id": toolCallId } : {}),
+  });
+}
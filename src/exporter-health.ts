@@ -0,0 +1,341 @@
+/**
+ * Exporter self-telemetry — tracks whether the plugin's own exports are
+ * getting through, per signal (traces, metrics, logs).
+ *
+ * Monitored*Exporter wrappers sit directly around the OTLP/file exporters
+ * and record each export's outcome, item count and latency. The batch
+ * processors' queues are private, so the QueueMonitor processors sit in
+ * front of them and mirror their bookkeeping: items handed to the batch
+ * processor raise the queue depth, items handed to the exporter lower it,
+ * and items arriving at a full queue are counted as dropped (the batch
+ * processor discards them).
+ *
+ * The same numbers are reported by the status RPC / otel_status / CLI and
+ * exported as openclaw.otel.exporter.* metrics. Failures are logged only on
+ * the transition from healthy to failing (and back), so a dead log exporter
+ * cannot feed itself with its own error lines.
+ */
+
+import { TraceFlags, type Context, type Histogram, type Meter, type Counter } from "@opentelemetry/api";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import type { ReadableSpan, Span, SpanExporter, SpanProcessor } from "@opentelemetry/sdk-trace-node";
+import {
+  AggregationTemporality,
+  type InstrumentType,
+  type PushMetricExporter,
+  type ResourceMetrics,
+} from "@opentelemetry/sdk-metrics";
+import type { LogRecordExporter, LogRecordProcessor, ReadableLogRecord, SdkLogRecord } from "@opentelemetry/sdk-logs";
+
+export type ExportSignal = "traces" | "metrics" | "logs";
+
+/** Queue size of the batch span/log processors (the SDK default) */
+export const BATCH_QUEUE_SIZE = 2048;
+
+export interface SignalHealth {
+  /** Export calls made */
+  exports: number;
+  successes: number;
+  failures: number;
+  /** Spans, metrics or log records in successful exports */
+  itemsExported: number;
+  /** Spans, metrics or log records in failed exports */
+  itemsFailed: number;
+  /** Items discarded because the batch queue was full */
+  dropped: number;
+  /** Items waiting in the batch queue (traces and logs only) */
+  queueDepth?: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+  lastLatencyMs?: number;
+  avgLatencyMs?: number;
+  /** Whether the most recent export succeeded */
+  healthy: boolean;
+}
+
+interface SignalStats {
+  exports: number;
+  successes: number;
+  failures: number;
+  itemsExported: number;
+  itemsFailed: number;
+  dropped: number;
+  queueDepth: number;
+  queued: boolean;
+  totalLatencyMs: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+  failing: boolean;
+}
+
+interface HealthInstruments {
+  exports: Counter;
+  items: Counter;
+  dropped: Counter;
+  duration: Histogram;
+}
+
+export class ExporterHealth {
+  private readonly stats = new Map<ExportSignal, SignalStats>();
+  private instruments?: HealthInstruments;
+
+  /** `mask` scrubs secrets (resolved header values) from export errors */
+  constructor(
+    private readonly logger: any,
+    private readonly mask: (text: string) => string = (text) => text
+  ) {}
+
+  /** Start tracking a signal; `queued` when it goes through a batch queue */
+  track(signal: ExportSignal, queued: boolean): void {
+    this.stats.set(signal, {
+      exports: 0,
+      successes: 0,
+      failures: 0,
+      itemsExported: 0,
+      itemsFailed: 0,
+      dropped: 0,
+      queueDepth: 0,
+      queued,
+      totalLatencyMs: 0,
+      failing: false,
+    });
+  }
+
+  /**
+   * Create the openclaw.otel.exporter.* instruments. Called once the meter
+   * exists — exports before that only update the in-memory stats.
+   */
+  bindMetrics(meter: Meter): void {
+    this.instruments = {
+      exports: meter.createCounter("openclaw.otel.exporter.exports", {
+        description: "Export calls made by the plugin's exporters",
+        unit: "exports",
+      }),
+      items: meter.createCounter("openclaw.otel.exporter.items", {
+        description: "Spans, metrics and log records exported or failed",
+        unit: "items",
+      }),
+      dropped: meter.createCounter("openclaw.otel.exporter.dropped", {
+        description: "Items dropped because the export queue was full",
+        unit: "items",
+      }),
+      duration: meter.createHistogram("openclaw.otel.exporter.duration", {
+        description: "Export call latency",
+        unit: "ms",
+      }),
+    };
+
+    const queueDepth = meter.createObservableGauge("openclaw.otel.exporter.queue_depth", {
+      description: "Items waiting in the export queue",
+      unit: "items",
+    });
+    queueDepth.addCallback((result) => {
+      for (const [signal, stats] of this.stats) {
+        if (stats.queued) result.observe(stats.queueDepth, { signal });
+      }
+    });
+  }
+
+  /** Record the outcome of one export call */
+  recordExport(signal: ExportSignal, items: number, latencyMs: number, result: ExportResult, now = Date.now()): void {
+    const stats = this.stats.get(signal);
+    if (!stats) return;
+    const ok = result.code === ExportResultCode.SUCCESS;
+    const outcome = ok ? "success" : "failure";
+
+    stats.exports += 1;
+    stats.totalLatencyMs += latencyMs;
+    stats.lastLatencyMs = Math.round(latencyMs);
+    if (ok) {
+      stats.successes += 1;
+      stats.itemsExported += items;
+      stats.lastSuccessAt = now;
+      if (stats.failing) {
+        this.logger.info?.(`[otel] ${signal} export recovered`);
+      }
+      stats.failing = false;
+    } else {
+      stats.failures += 1;
+      stats.itemsFailed += items;
+      stats.lastError = this.mask(result.error?.message ?? "export failed");
+      stats.lastErrorAt = now;
+      if (!stats.failing) {
+        this.logger.warn?.(`[otel] ${signal} export failing: ${stats.lastError}`);
+      }
+      stats.failing = true;
+    }
+
+    const attrs = { signal, outcome };
+    this.instruments?.exports.add(1, attrs);
+    this.instruments?.items.add(items, attrs);
+    this.instruments?.duration.record(latencyMs, attrs);
+  }
+
+  /** An item was handed to the batch queue */
+  enqueued(signal: ExportSignal): void {
+    const stats = this.stats.get(signal);
+    if (!stats) return;
+    if (stats.queueDepth >= BATCH_QUEUE_SIZE) {
+      stats.dropped += 1;
+      this.instruments?.dropped.add(1, { signal });
+      return;
+    }
+    stats.queueDepth += 1;
+  }
+
+  /** Items left the batch queue for the exporter */
+  dequeued(signal: ExportSignal, items: number): void {
+    const stats = this.stats.get(signal);
+    if (stats) stats.queueDepth = Math.max(0, stats.queueDepth - items);
+  }
+
+  /** Health of every tracked signal */
+  snapshot(): Partial<Record<ExportSignal, SignalHealth>> {
+    const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : undefined);
+    const result: Partial<Record<ExportSignal, SignalHealth>> = {};
+    for (const [signal, stats] of this.stats) {
+      result[signal] = {
+        exports: stats.exports,
+        successes: stats.successes,
+        failures: stats.failures,
+        itemsExported: stats.itemsExported,
+        itemsFailed: stats.itemsFailed,
+        dropped: stats.dropped,
+        queueDepth: stats.queued ? stats.queueDepth : undefined,
+        lastError: stats.lastError,
+        lastErrorAt: iso(stats.lastErrorAt),
+        lastSuccessAt: iso(stats.lastSuccessAt),
+        lastLatencyMs: stats.lastLatencyMs,
+        avgLatencyMs: stats.exports ? Math.round(stats.totalLatencyMs / stats.exports) : undefined,
+        healthy: !stats.failing,
+      };
+    }
+    return result;
+  }
+}
+
+/** Time an export and record its outcome before passing it on */
+function monitorExport(
+  health: ExporterHealth,
+  signal: ExportSignal,
+  items: number,
+  resultCallback: (result: ExportResult) => void
+): (result: ExportResult) => void {
+  const startedAt = performance.now();
+  return (result) => {
+    health.recordExport(signal, items, performance.now() - startedAt, result);
+    resultCallback(result);
+  };
+}
+
+export class MonitoredSpanExporter implements SpanExporter {
+  constructor(
+    private readonly inner: SpanExporter,
+    private readonly health: ExporterHealth
+  ) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.health.dequeued("traces", spans.length);
+    this.inner.export(spans, monitorExport(this.health, "traces", spans.length, resultCallback));
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.inner.forceFlush?.();
+  }
+}
+
+export class MonitoredMetricExporter implements PushMetricExporter {
+  constructor(
+    private readonly inner: PushMetricExporter,
+    private readonly health: ExporterHealth
+  ) {}
+
+  export(metrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
+    const items = metrics.scopeMetrics.reduce((sum, scope) => sum + scope.metrics.length, 0);
+    this.inner.export(metrics, monitorExport(this.health, "metrics", items, resultCallback));
+  }
+
+  // Keep the wrapped exporter's temporality preference (optional — the SDK default is cumulative)
+  selectAggregationTemporality(instrumentType: InstrumentType): AggregationTemporality {
+    return this.inner.selectAggregationTemporality?.(instrumentType) ?? AggregationTemporality.CUMULATIVE;
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+
+  forceFlush(): Promise<void> {
+    return this.inner.forceFlush();
+  }
+}
+
+export class MonitoredLogExporter implements LogRecordExporter {
+  constructor(
+    private readonly inner: LogRecordExporter,
+    private readonly health: ExporterHealth
+  ) {}
+
+  export(logs: ReadableLogRecord[], resultCallback: (result: ExportResult) => void): void {
+    this.health.dequeued("logs", logs.length);
+    this.inner.export(logs, monitorExport(this.health, "logs", logs.length, resultCallback));
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+}
+
+/** Counts spans entering the batch span processor (sampled ones only, as it does) */
+export class QueueMonitorSpanProcessor implements SpanProcessor {
+  constructor(
+    private readonly next: SpanProcessor,
+    private readonly health: ExporterHealth
+  ) {}
+
+  onStart(span: Span, parentContext: Context): void {
+    this.next.onStart(span, parentContext);
+  }
+
+  onEnd(span: ReadableSpan): void {
+    if (span.spanContext().traceFlags & TraceFlags.SAMPLED) {
+      this.health.enqueued("traces");
+    }
+    this.next.onEnd(span);
+  }
+
+  forceFlush(): Promise<void> {
+    return this.next.forceFlush();
+  }
+
+  shutdown(): Promise<void> {
+    return this.next.shutdown();
+  }
+}
+
+/** Counts log records entering the batch log processor */
+export class QueueMonitorLogProcessor implements LogRecordProcessor {
+  constructor(
+    private readonly next: LogRecordProcessor,
+    private readonly health: ExporterHealth
+  ) {}
+
+  onEmit(logRecord: SdkLogRecord, context?: Context): void {
+    this.health.enqueued("logs");
+    this.next.onEmit(logRecord, context);
+  }
+
+  forceFlush(): Promise<void> {
+    return this.next.forceFlush();
+  }
+
+  shutdown(): Promise<void> {
+    return this.next.shutdown();
+  }
+}
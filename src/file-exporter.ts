@@ -0,0 +1,157 @@
+/**
+ * Offline file exporter — writes spans, metric snapshots and log records as
+ * OTLP-JSON lines for air-gapped deployments without a collector.
+ *
+ * Each signal gets its own series of files in the export directory:
+ *   traces-<timestamp>.jsonl, metrics-<timestamp>.jsonl, logs-<timestamp>.jsonl
+ *
+ * Every line is one OTLP/JSON export request (ExportTraceServiceRequest,
+ * ExportMetricsServiceRequest, ExportLogsServiceRequest), the format read by
+ * the collector's otlpjsonfile receiver. Files rotate by size and age, and
+ * only the newest `maxFiles` per signal are kept.
+ */
+
+import { appendFileSync, mkdirSync, readdirSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import { JsonLogsSerializer, JsonMetricsSerializer, JsonTraceSerializer } from "@opentelemetry/otlp-transformer";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-node";
+import {
+  AggregationTemporality,
+  type PushMetricExporter,
+  type ResourceMetrics,
+} from "@opentelemetry/sdk-metrics";
+import type { LogRecordExporter, ReadableLogRecord } from "@opentelemetry/sdk-logs";
+import type { FileExportConfig } from "./config.js";
+
+export type FileSignal = "traces" | "metrics" | "logs";
+
+const decoder = new TextDecoder();
+
+/**
+ * Append-only JSONL writer for one signal, rotating by size and age.
+ */
+export class RotatingFileWriter {
+  private currentPath?: string;
+  private currentSize = 0;
+  private openedAt = 0;
+  private sequence = 0;
+
+  constructor(
+    private readonly signal: FileSignal,
+    private readonly config: FileExportConfig
+  ) {
+    mkdirSync(config.directory, { recursive: true });
+  }
+
+  appendLine(line: string): void {
+    const bytes = Buffer.byteLength(line) + 1;
+    if (this.needsRotation(bytes)) {
+      this.rotate();
+    }
+    appendFileSync(this.currentPath!, `${line}\n`);
+    this.currentSize += bytes;
+  }
+
+  private needsRotation(nextBytes: number): boolean {
+    if (!this.currentPath) return true;
+    if (Date.now() - this.openedAt >= this.config.maxFileAgeMs) return true;
+    // A single oversized line still gets a file of its own
+    return this.currentSize > 0 && this.currentSize + nextBytes > this.config.maxFileSizeBytes;
+  }
+
+  private rotate(): void {
+    // ISO timestamps sort lexically; the sequence breaks ties within a millisecond
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const seq = String(this.sequence++ % 1000).padStart(3, "0");
+    this.currentPath = join(this.config.directory, `${this.signal}-${stamp}-${seq}.jsonl`);
+    this.currentSize = 0;
+    this.openedAt = Date.now();
+    this.prune();
+  }
+
+  /** Delete the oldest files of this signal beyond maxFiles (the new file included) */
+  private prune(): void {
+    const prefix = `${this.signal}-`;
+    const files = readdirSync(this.config.directory)
+      .filter((f) => f.startsWith(prefix) && f.endsWith(".jsonl"))
+      .sort();
+    const excess = files.length - (this.config.maxFiles - 1);
+    for (const file of files.slice(0, Math.max(0, excess))) {
+      try {
+        unlinkSync(join(this.config.directory, file));
+      } catch {
+        // Already gone — nothing to do
+      }
+    }
+  }
+}
+
+function writeSerialized(
+  writer: RotatingFileWriter,
+  payload: Uint8Array | undefined,
+  resultCallback: (result: ExportResult) => void
+): void {
+  try {
+    if (payload) {
+      writer.appendLine(decoder.decode(payload));
+    }
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  } catch (err) {
+    resultCallback({
+      code: ExportResultCode.FAILED,
+      error: err instanceof Error ? err : new Error(String(err)),
+    });
+  }
+}
+
+export class FileSpanExporter implements SpanExporter {
+  private readonly writer: RotatingFileWriter;
+
+  constructor(config: FileExportConfig) {
+    this.writer = new RotatingFileWriter("traces", config);
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    writeSerialized(this.writer, JsonTraceSerializer.serializeRequest(spans), resultCallback);
+  }
+
+  async shutdown(): Promise<void> {}
+
+  async forceFlush(): Promise<void> {}
+}
+
+export class FileMetricExporter implements PushMetricExporter {
+  private readonly writer: RotatingFileWriter;
+
+  constructor(config: FileExportConfig) {
+    this.writer = new RotatingFileWriter("metrics", config);
+  }
+
+  export(metrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
+    writeSerialized(this.writer, JsonMetricsSerializer.serializeRequest(metrics), resultCallback);
+  }
+
+  // Snapshots are self-contained, so every instrument is cumulative
+  selectAggregationTemporality(): AggregationTemporality {
+    return AggregationTemporality.CUMULATIVE;
+  }
+
+  async shutdown(): Promise<void> {}
+
+  async forceFlush(): Promise<void> {}
+}
+
+export class FileLogExporter implements LogRecordExporter {
+  private readonly writer: RotatingFileWriter;
+
+  constructor(config: FileExportConfig) {
+    this.writer = new RotatingFileWriter("logs", config);
+  }
+
+  export(logs: ReadableLogRecord[], resultCallback: (result: ExportResult) => void): void {
+    writeSerialized(this.writer, JsonLogsSerializer.serializeRequest(logs), resultCallback);
+  }
+
+  async shutdown(): Promise<void> {}
+}
@@ -0,0 +1,45 @@
+/**
+ * Gateway RPC for the CLI — `openclaw otel …` runs in its own process, where
+ * the plugin's telemetry never starts. Exporter health, the retry backlog,
+ * header secrets and recent traces live in the gateway and are read through
+ * this plugin's Gateway methods.
+ */
+
+type CallGateway = (opts: { method: string; params?: unknown; timeoutMs?: number }) => Promise<unknown>;
+
+const CALL_TIMEOUT_MS = 10_000;
+
+// Import from OpenClaw plugin SDK (loaded lazily)
+let callGateway: CallGateway | null = null;
+let sdkLoadAttempted = false;
+
+async function loadSdk(): Promise<void> {
+  if (sdkLoadAttempted) return;
+  sdkLoadAttempted = true;
+  try {
+    // @ts-ignore - openclaw/plugin-sdk types not available at build time
+    const sdk = await import("openclaw/plugin-sdk") as any;
+    if (typeof sdk.callGateway === "function") callGateway = sdk.callGateway;
+  } catch {
+    // SDK not available — the CLI cannot reach the gateway
+  }
+}
+
+/**
+ * Call a Gateway method and return its payload. Rejects when the SDK cannot
+ * call the gateway, the gateway is not reachable, or the method fails.
+ */
+export async function callGatewayMethod(method: string, params?: object): Promise<unknown> {
+  await loadSdk();
+  if (!callGateway) {
+    throw new Error("openclaw/plugin-sdk cannot call the gateway from this process");
+  }
+  return callGateway({ method, params, timeoutMs: CALL_TIMEOUT_MS });
+}
+
+/** Error message of a failed gateway call, for CLI output */
+export function gatewayError(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  const message = (err as { error?: unknown } | undefined)?.error;
+  return typeof message === "string" ? message : String(err);
+}
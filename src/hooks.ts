@@ -8,15 +8,19 @@
  *   ├── openclaw.agent.turn (agent processing span)
  *   │   ├── tool.exec (tool call)
  *   │   ├── tool.Read (tool call)
- *   │   ├── anthropic.chat (auto-instrumented by OpenLLMetry)
+ *   │   ├── chat {model} (synthesized from model.usage, see diagnostics.ts)
  *   │   └── tool.write (tool call)
- *   └── (future: message.sent span)
+ *   └── openclaw.message.sent (one per delivered chunk, see outbound.ts)
  *
  * Context propagation:
  *   - before_agent_start: creates ROOT span + child "agent turn" span (universal)
  *   - message_received: creates standalone span for channel audit trail (optional)
- *   - tool_result_persist: creates child tool span under agent turn
+ *   - before_tool_call: starts the tool span (real execution timing);
+ *     enforcement mode blocks risky calls before they run;
+ *     trace context is injected into exec env / HTTP tool headers
+ *   - tool_result_persist: ends the tool span under the agent turn
  *   - agent_end: ends the agent turn + root spans
+ *   - message_sending / message_sent: outbound delivery spans under the root
  *
  * IMPORTANT: OpenClaw has TWO hook registration systems:
  *   - api.registerHook() → event-stream hooks (command:new, gateway:startup)
@@ -34,13 +38,34 @@
  * session key formats (channel-specific vs agent-runtime), so spans created
  * in message_received cannot be reliably looked up by before_agent_start.
  * See: https://github.com/henrikrexed/openclaw-observability-plugin/issues/2
+ *
+ * An inbound W3C traceparent makes openclaw.request a child of the caller's
+ * span instead of a new trace root (see propagation.ts).
  */
 
 import { SpanKind, SpanStatusCode, context, trace, type Span, type Context } from "@opentelemetry/api";
 import type { TelemetryRuntime } from "./telemetry.js";
 import type { OtelObservabilityConfig } from "./config.js";
-import { activeAgentSpans, getPendingUsage } from "./diagnostics.js";
-import { checkToolSecurity, checkMessageSecurity, type SecurityCounters } from "./security.js";
+import { activeAgentSpans } from "./diagnostics.js";
+import { startTurnUsage, takeTurnUsage, usageFromMessages, applyTurnUsageToSpan } from "./usage.js";
+import {
+  checkToolSecurity,
+  checkMessageSecurity,
+  checkToolResultSecurity,
+  checkSecretExposure,
+  evaluateToolSecurity,
+  markTurnWithIndirectInjection,
+  recordToolSecurityEvent,
+  buildRuleSet,
+  type SecurityCounters,
+  type SecurityEvent,
+} from "./security.js";
+import { priceTurnUsage } from "./pricing.js";
+import type { SessionRegistry } from "./sessions.js";
+import { InboundContextStore, contextEnv, contextHeaders, extractContext, findCarrier } from "./propagation.js";
+import { OutboundCorrelator, type OutboundRequest, type PendingDelivery } from "./outbound.js";
+import { BudgetTracker, recordBudgetCrossing, recordBudgetToolBlock } from "./budgets.js";
+import { approvePendingConfirmations, clearPendingConfirmations, decideEnforcement, isBlocking, recordEnforcementEvent } from "./enforcement.js";
 
 /** Active trace context for a session — allows connecting spans into one trace. */
 interface SessionTraceContext {
@@ -48,22 +73,61 @@ interface SessionTraceContext {
   rootContext: Context;
   agentSpan?: Span;
   agentContext?: Context;
+  /** Channel the turn came in on (messageProvider), for channel budgets */
+  channel: string;
+  /** Set when an exhausted budget blocks this turn's tool calls */
+  budgetExhausted?: boolean;
+  /** Start of the current agent turn (the request may span several) */
+  agentStartTime?: number;
   startTime: number;
 }
 
 /** Map of sessionKey → active trace context. Cleaned up on agent_end. */
 const sessionContextMap = new Map<string, SessionTraceContext>();
 
+/** A tool span started in before_tool_call, waiting for its result */
+interface PendingToolSpan {
+  span: Span;
+  context: Context;
+  toolName: string;
+  sessionKey: string;
+  startTime: number;
+  /** Detection that made enforcement block the call — already recorded */
+  blockedBy?: SecurityEvent;
+}
+
+/** Map of tool call key → running tool span. Ended by tool_result_persist. */
+const pendingToolSpans = new Map<string, PendingToolSpan>();
+
+/** Calls without a toolCallId fall back to session + tool name */
+function toolCallKey(toolCallId: string | undefined, sessionKey: string, toolName: string): string {
+  return toolCallId || `${sessionKey}\0${toolName}`;
+}
+
+/** Text of a chat message — plain string content or the joined text parts */
+function messageText(message: any): string {
+  if (typeof message?.content === "string") return message.content;
+  if (Array.isArray(message?.content)) {
+    return message.content
+      .filter((c: any) => c.type === "text")
+      .map((c: any) => c.text || "")
+      .join("\n");
+  }
+  return "";
+}
+
 /**
  * Register all plugin hooks on the OpenClaw plugin API.
+ * Returns a function that stops the cleanup timer and closes open spans.
  */
 export function registerHooks(
   api: any,
   telemetry: TelemetryRuntime,
-  config: OtelObservabilityConfig
-): void {
+  config: OtelObservabilityConfig,
+  sessions: SessionRegistry
+): () => void {
   const { tracer, counters, histograms } = telemetry;
-  const logger = api.logger;
+  const logger = telemetry.logger;
 
   // ═══════════════════════════════════════════════════════════════════
   // TYPED HOOKS — registered via api.on() into registry.typedHooks
@@ -89,8 +153,27 @@ export function registerHooks(
     sensitiveFileAccess: counters.sensitiveFileAccess,
     promptInjection: counters.promptInjection,
     dangerousCommand: counters.dangerousCommand,
+    secretExposure: counters.secretExposure,
   };
 
+  // Built-in detection rules merged with the user's security config
+  const securityRules = buildRuleSet(config.security);
+
+  // Cost/token budgets, charged per finished turn
+  const budgets = new BudgetTracker(config.budgets);
+
+  // Detections are also remembered on the session for the otel_usage tool
+  const emitSecurityEvent: TelemetryRuntime["emitSecurityEvent"] = (event, span) => {
+    telemetry.emitSecurityEvent(event, span);
+    sessions.recordDetection(event);
+  };
+
+  // Links outbound deliveries to the request that produced them
+  const outbound = new OutboundCorrelator();
+
+  // Caller trace contexts from channel messages, waiting for their agent turn
+  const inboundContexts = new InboundContextStore();
+
   api.on(
     "message_received",
     async (event: any, ctx: any) => {
@@ -100,18 +183,30 @@ export function registerHooks(
         const from = event?.from || event?.senderId || "unknown";
         const messageText = event?.text || event?.message || "";
 
+        // Caller's trace context from the message metadata — parked for the
+        // agent turn, which arrives under a different session key
+        const carrier = config.propagation.inbound ? findCarrier(event?.metadata, event) : undefined;
+        const remoteContext = carrier ? extractContext(carrier) : undefined;
+        if (remoteContext) {
+          inboundContexts.park(channel, [event?.from || event?.senderId, ctx?.conversationId], remoteContext);
+        }
+
         // Create a standalone audit span (not a root span for child hooks).
         // This captures channel metadata for observability without creating
         // orphaned root spans that never get closed.
-        const messageSpan = tracer.startSpan("openclaw.message.received", {
-          kind: SpanKind.SERVER,
-          attributes: {
-            "openclaw.message.channel": channel,
-            "openclaw.session.key": sessionKey,
-            "openclaw.message.direction": "inbound",
-            "openclaw.message.from": from,
+        const messageSpan = tracer.startSpan(
+          "openclaw.message.received",
+          {
+            kind: SpanKind.SERVER,
+            attributes: {
+              "openclaw.message.channel": channel,
+              "openclaw.session.key": sessionKey,
+              "openclaw.message.direction": "inbound",
+              "openclaw.message.from": from,
+            },
           },
-        });
+          remoteContext
+        );
 
         // ═══ SECURITY DETECTION 2: Prompt Injection ═══════════════
         if (messageText && typeof messageText === "string" && messageText.length > 0) {
@@ -119,10 +214,12 @@ export function registerHooks(
             messageText,
             messageSpan,
             securityCounters,
-            sessionKey
+            sessionKey,
+            securityRules,
+            telemetry.redact
           );
           if (securityEvent) {
-            logger.warn?.(`[otel] SECURITY: ${securityEvent.detection} - ${securityEvent.description}`);
+            emitSecurityEvent(securityEvent, messageSpan);
           }
         }
 
@@ -157,9 +254,11 @@ export function registerHooks(
   api.on(
     "before_agent_start",
     (event: any, ctx: any) => {
+      let result: { prependContext: string } | undefined;
       try {
         const sessionKey = event?.sessionKey || ctx?.sessionKey || "unknown";
         const agentId = event?.agentId || ctx?.agentId || "unknown";
+        const channel = ctx?.messageProvider || event?.channel || "unknown";
         const model = event?.model || "unknown";
 
         // Check if a root span already exists for this session key
@@ -167,20 +266,35 @@ export function registerHooks(
         let sessionCtx = sessionContextMap.get(sessionKey);
 
         if (!sessionCtx) {
+          // Continue the caller's trace: traceparent in the RPC params or
+          // metadata, else one parked by message_received for this channel
+          let parentContext: Context | undefined;
+          if (config.propagation.inbound) {
+            const carrier = findCarrier(event?.metadata, event?.params, ctx?.metadata, event);
+            parentContext = (carrier && extractContext(carrier)) || inboundContexts.claim(channel, sessionKey);
+          }
+
           // Create the root request span — this is the primary path for ALL channels
-          const rootSpan = tracer.startSpan("openclaw.request", {
-            kind: SpanKind.SERVER,
-            attributes: {
-              "openclaw.session.key": sessionKey,
-              "openclaw.message.direction": "inbound",
+          const rootSpan = tracer.startSpan(
+            "openclaw.request",
+            {
+              kind: SpanKind.SERVER,
+              attributes: {
+                "openclaw.session.key": sessionKey,
+                "openclaw.message.channel": channel,
+                "openclaw.message.direction": "inbound",
+                ...(parentContext ? { "openclaw.trace.remote_parent": true } : {}),
+              },
             },
-          });
+            parentContext
+          );
 
-          const rootContext = trace.setSpan(context.active(), rootSpan);
+          const rootContext = trace.setSpan(parentContext ?? context.active(), rootSpan);
 
           sessionCtx = {
             rootSpan,
             rootContext,
+            channel,
             startTime: Date.now(),
           };
           sessionContextMap.set(sessionKey, sessionCtx);
@@ -207,25 +321,263 @@ export function registerHooks(
         // Store agent span context for tool spans
         sessionCtx.agentSpan = agentSpan;
         sessionCtx.agentContext = agentContext;
+        sessionCtx.agentStartTime = Date.now();
 
         // Register in activeAgentSpans for diagnostics integration
         activeAgentSpans.set(sessionKey, agentSpan);
 
+        // Start a fresh usage accumulator for this turn
+        startTurnUsage(sessionKey);
+
+        // Opens the session on its first turn
+        sessions.touch(sessionKey, agentId, sessionCtx.channel);
+
+        // Replies delivered on this channel join this request's trace
+        outbound.remember(sessionKey, sessionCtx.channel, sessionCtx.rootContext);
+
+        // A held tool call is approved only by a user message that is just
+        // "/approve <id>" — any other reply leaves it pending
+        if (config.enforcement.enabled) {
+          const approved = approvePendingConfirmations(
+            sessionKey,
+            event?.prompt,
+            config.enforcement.confirmationTtlMs
+          );
+          if (approved) {
+            logger.info(`[otel] ENFORCEMENT: user approved held call ${approved} in session=${sessionKey}`);
+          }
+        }
+
+        // Budget exhausted — tell the agent to stop; its tool calls are blocked.
+        // The hooks cannot cancel the turn, so the model call still runs
+        sessionCtx.budgetExhausted = false;
+        const exhausted = budgets.blocksTools
+          ? budgets.exhausted({ sessionKey, agentId, channel: sessionCtx.channel })
+          : undefined;
+        if (exhausted) {
+          sessionCtx.budgetExhausted = true;
+          result = { prependContext: recordBudgetToolBlock(telemetry, exhausted, agentSpan) };
+        }
+
         logger.debug?.(`[otel] Agent turn span started: agent=${agentId}, session=${sessionKey}`);
       } catch (err) {
         logger.warn?.(`[otel] before_agent_start hook error: ${err instanceof Error ? err.message : String(err)}`);
       }
 
-      // Return undefined — don't modify system prompt
-      return undefined;
+      // Undefined leaves the prompt untouched; an exhausted budget prepends a notice
+      return result;
     },
     { priority: 90 }
   );
 
   logger.info("[otel] Registered before_agent_start hook (via api.on)");
 
+  // ── before_tool_call (timing) ────────────────────────────────────
+  // Starts the tool span when the call begins, so tool_result_persist can
+  // end it with the real execution time. Runs first, before any hook that
+  // may block the call (blocked calls still persist an error result).
+
+  api.on(
+    "before_tool_call",
+    (event: any, ctx: any) => {
+      try {
+        const toolName = event?.toolName || "unknown";
+        const toolCallId = event?.toolCallId || "";
+        const sessionKey = ctx?.sessionKey || "unknown";
+
+        const sessionCtx = sessionContextMap.get(sessionKey);
+        const parentContext = sessionCtx?.agentContext || sessionCtx?.rootContext || context.active();
+
+        const span = tracer.startSpan(
+          `tool.${toolName}`,
+          {
+            kind: SpanKind.INTERNAL,
+            attributes: {
+              "openclaw.tool.name": toolName,
+              "openclaw.tool.call_id": toolCallId,
+              "openclaw.session.key": sessionKey,
+              "openclaw.agent.id": ctx?.agentId || "unknown",
+            },
+          },
+          parentContext
+        );
+
+        pendingToolSpans.set(toolCallKey(toolCallId, sessionKey, toolName), {
+          span,
+          context: trace.setSpan(parentContext, span),
+          toolName,
+          sessionKey,
+          startTime: Date.now(),
+        });
+      } catch (err) {
+        logger.warn?.(`[otel] before_tool_call timing error: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return undefined;
+    },
+    { priority: 200 }
+  );
+
+  logger.info("[otel] Registered before_tool_call timing hook (via api.on)");
+
+  /** End a tool span and record its duration by outcome */
+  const finishToolSpan = (
+    span: Span,
+    toolName: string,
+    startTime: number,
+    outcome: "success" | "error" | "timeout" | "incomplete"
+  ): void => {
+    const durationMs = Date.now() - startTime;
+    span.setAttribute("openclaw.tool.duration_ms", durationMs);
+    histograms.toolDuration.record(durationMs, {
+      "tool.name": toolName,
+      "tool.outcome": outcome,
+    });
+    span.end();
+  };
+
+  // ── before_tool_call ─────────────────────────────────────────────
+  // ENFORCEMENT MODE (opt-in) — runs the tool security detections before
+  // the tool executes and applies the per-severity policy. Blocked calls
+  // never reach the tool; the agent receives the block reason instead.
+  // Event shape from OpenClaw:
+  //   event: { toolName, params, toolCallId? }
+  //   ctx:   { agentId, sessionKey }
+
+  if (config.enforcement.enabled) {
+    api.on(
+      "before_tool_call",
+      (event: any, ctx: any) => {
+        try {
+          const toolName = event?.toolName || "unknown";
+          const toolCallId = event?.toolCallId || "";
+          const params = event?.params || {};
+          const sessionKey = ctx?.sessionKey || "unknown";
+          const agentId = ctx?.agentId || "unknown";
+
+          const securityEvent = evaluateToolSecurity(toolName, params, sessionKey, agentId, securityRules);
+          if (!securityEvent) return undefined;
+
+          const decision = decideEnforcement(securityEvent, toolName, params, config.enforcement);
+          if (decision.action === "allow") return undefined;
+
+          const blocked = isBlocking(decision);
+          const sessionCtx = sessionContextMap.get(sessionKey);
+          const span = sessionCtx?.agentSpan || sessionCtx?.rootSpan;
+          if (span) {
+            recordEnforcementEvent(span, securityEvent, decision, toolName, toolCallId, telemetry.redact);
+          }
+
+          if (!blocked) {
+            const verdict = decision.confirmed ? "confirmed by user" : "allowed with warning";
+            logger.warn?.(`[otel] ENFORCEMENT: ${toolName} ${verdict} (${securityEvent.detection}, ${securityEvent.severity})`);
+            return undefined;
+          }
+
+          counters.securityBlocked.add(1, {
+            detection: securityEvent.detection,
+            severity: securityEvent.severity,
+            action: decision.action,
+          });
+          // Recorded here once; tool_result_persist skips re-detecting
+          // the error result the blocked call still persists
+          const pending = pendingToolSpans.get(toolCallKey(toolCallId, sessionKey, toolName));
+          if (pending) {
+            pending.blockedBy = securityEvent;
+            pending.span.setAttribute("openclaw.tool.blocked", true);
+            recordToolSecurityEvent(securityEvent, pending.span, securityCounters, telemetry.redact);
+          } else if (span) {
+            recordToolSecurityEvent(securityEvent, span, securityCounters, telemetry.redact);
+          }
+          emitSecurityEvent(securityEvent, span);
+          logger.warn?.(`[otel] ENFORCEMENT: ${toolName} ${decision.action === "block" ? "blocked" : "held for confirmation"} (${securityEvent.detection}, ${securityEvent.severity})`);
+
+          return { block: true, blockReason: decision.reason };
+        } catch (err) {
+          // Fail open — a hook error must never stop the agent
+          logger.warn?.(`[otel] before_tool_call hook error: ${err instanceof Error ? err.message : String(err)}`);
+          return undefined;
+        }
+      },
+      { priority: 100 } // High priority — decide before other plugins rewrite params
+    );
+
+    logger.info("[otel] Registered before_tool_call enforcement hook (via api.on)");
+  }
+
+  // ── before_tool_call (trace context injection) ───────────────────
+  // Child processes and HTTP calls made by tools continue the trace as
+  // children of the tool span. Values the agent set explicitly are left alone.
+
+  const { envTools, headerTools } = config.propagation;
+  if (config.propagation.outbound && (envTools.length > 0 || headerTools.length > 0)) {
+    api.on(
+      "before_tool_call",
+      (event: any, ctx: any) => {
+        try {
+          const toolName = event?.toolName || "unknown";
+          const injectEnv = envTools.includes(toolName);
+          if (!injectEnv && !headerTools.includes(toolName)) return undefined;
+
+          // The tool span when timing started it, else the agent turn
+          const sessionKey = ctx?.sessionKey || "unknown";
+          const sessionCtx = sessionContextMap.get(sessionKey);
+          const activeContext =
+            pendingToolSpans.get(toolCallKey(event?.toolCallId, sessionKey, toolName))?.context ||
+            sessionCtx?.agentContext ||
+            sessionCtx?.rootContext;
+          if (!activeContext) return undefined;
+
+          const params = event?.params || {};
+          const field = injectEnv ? "env" : "headers";
+          const existing = params[field] && typeof params[field] === "object" ? params[field] : {};
+          const injected = injectEnv ? contextEnv(activeContext) : contextHeaders(activeContext);
+          const taken = new Set(Object.keys(existing).map((key) => key.toLowerCase()));
+          const added = Object.entries(injected).filter(([key]) => !taken.has(key.toLowerCase()));
+          if (added.length === 0) return undefined;
+
+          return { params: { ...params, [field]: { ...existing, ...Object.fromEntries(added) } } };
+        } catch (err) {
+          logger.warn?.(`[otel] before_tool_call propagation error: ${err instanceof Error ? err.message : String(err)}`);
+          return undefined;
+        }
+      },
+      { priority: -100 } // Run last — after enforcement has seen the original params
+    );
+
+    logger.info("[otel] Registered before_tool_call trace context hook (via api.on)");
+  }
+
+  // ── before_tool_call (budgets) ───────────────────────────────────
+  // Turns started after a blockTools budget is exhausted still reach the
+  // model (to explain the stop); every tool call they attempt is blocked.
+
+  if (budgets.blocksTools) {
+    api.on(
+      "before_tool_call",
+      (event: any, ctx: any) => {
+        try {
+          const sessionKey = ctx?.sessionKey || "unknown";
+          const sessionCtx = sessionContextMap.get(sessionKey);
+          if (!sessionCtx?.budgetExhausted) return undefined;
+          pendingToolSpans
+            .get(toolCallKey(event?.toolCallId, sessionKey, event?.toolName || "unknown"))
+            ?.span.setAttribute("openclaw.tool.blocked", true);
+          return { block: true, blockReason: "Budget exhausted — no further tool calls this turn." };
+        } catch (err) {
+          // Fail open, as enforcement does
+          logger.warn?.(`[otel] before_tool_call budget error: ${err instanceof Error ? err.message : String(err)}`);
+          return undefined;
+        }
+      },
+      { priority: 100 }
+    );
+
+    logger.info("[otel] Registered before_tool_call budget hook (via api.on)");
+  }
+
   // ── tool_result_persist ──────────────────────────────────────────
-  // Creates a child span under the agent turn span for each tool call.
+  // Ends the tool span started in before_tool_call (or creates one, if the
+  // pre-call hook did not see the call) under the agent turn span.
   // SYNCHRONOUS — must not return a Promise.
 
   api.on(
@@ -246,47 +598,72 @@ export function registerHooks(
           "tool.name": toolName,
           "session.key": sessionKey,
         });
+        sessions.recordToolCall(sessionKey, toolName);
 
-        // Get parent context — prefer agent turn span, fall back to root
         const sessionCtx = sessionContextMap.get(sessionKey);
-        const parentContext = sessionCtx?.agentContext || sessionCtx?.rootContext || context.active();
 
-        // Create tool span as child of agent turn
-        const span = tracer.startSpan(
-          `tool.${toolName}`,
-          {
-            kind: SpanKind.INTERNAL,
-            attributes: {
-              "openclaw.tool.name": toolName,
-              "openclaw.tool.call_id": toolCallId,
-              "openclaw.tool.is_synthetic": isSynthetic,
-              "openclaw.session.key": sessionKey,
-              "openclaw.agent.id": agentId,
+        // Span started when the call began; create one now as a fallback
+        const callKey = toolCallKey(toolCallId, sessionKey, toolName);
+        const pending = pendingToolSpans.get(callKey);
+        pendingToolSpans.delete(callKey);
+        const startTime = pending?.startTime ?? Date.now();
+
+        let span: Span;
+        if (pending) {
+          span = pending.span;
+          span.setAttribute("openclaw.tool.is_synthetic", isSynthetic);
+        } else {
+          // Parent: prefer agent turn span, fall back to root
+          const parentContext = sessionCtx?.agentContext || sessionCtx?.rootContext || context.active();
+          span = tracer.startSpan(
+            `tool.${toolName}`,
+            {
+              kind: SpanKind.INTERNAL,
+              attributes: {
+                "openclaw.tool.name": toolName,
+                "openclaw.tool.call_id": toolCallId,
+                "openclaw.tool.is_synthetic": isSynthetic,
+                "openclaw.session.key": sessionKey,
+                "openclaw.agent.id": agentId,
+              },
             },
-          },
-          parentContext
-        );
+            parentContext
+          );
+        }
 
         // ═══ SECURITY DETECTION 1 & 3: File Access & Dangerous Commands ═══
-        const securityEvent = checkToolSecurity(
-          toolName,
-          toolInput,
-          span,
-          securityCounters,
-          sessionKey,
-          agentId
-        );
+        // A call enforcement blocked was already recorded in before_tool_call
+        const blockedBy = pending?.blockedBy;
+        const securityEvent =
+          blockedBy ??
+          checkToolSecurity(
+            toolName,
+            toolInput,
+            span,
+            securityCounters,
+            sessionKey,
+            agentId,
+            securityRules,
+            telemetry.redact
+          );
         if (securityEvent) {
-          logger.warn?.(`[otel] SECURITY: ${securityEvent.detection} - ${securityEvent.description}`);
-          // Add tool input details to span for forensics
+          if (!blockedBy) {
+            emitSecurityEvent(securityEvent, span);
+          }
+          // Add tool input details to span for forensics (redacted before truncation
+          // so a secret is never cut in half and slips past the detectors)
           if (toolInput) {
-            const inputStr = JSON.stringify(toolInput).slice(0, 1000);
-            span.setAttribute("openclaw.tool.input_preview", inputStr);
+            const inputStr = telemetry.redact(JSON.stringify(toolInput));
+            if (inputStr !== undefined) {
+              span.setAttribute("openclaw.tool.input_preview", inputStr.slice(0, 1000));
+            }
           }
         }
 
         // Inspect the message for result metadata
         const message = event?.message;
+        let resultFlagged = false;
+        let failed = false;
         if (message) {
           const contentArray = message?.content;
           if (contentArray && Array.isArray(contentArray)) {
@@ -296,12 +673,50 @@ export function registerHooks(
             const totalChars = textParts.reduce((sum: number, t: string) => sum + t.length, 0);
             span.setAttribute("openclaw.tool.result_chars", totalChars);
             span.setAttribute("openclaw.tool.result_parts", contentArray.length);
+
+            // ═══ SECURITY DETECTION 2b: Indirect Prompt Injection ═══
+            // Fetched pages, untrusted files and emails can carry instructions
+            if (totalChars > 0) {
+              const injectionEvent = checkToolResultSecurity(
+                toolName,
+                textParts.join("\n"),
+                span,
+                securityCounters,
+                sessionKey,
+                agentId,
+                securityRules,
+                telemetry.redact
+              );
+              if (injectionEvent) {
+                emitSecurityEvent(injectionEvent, span);
+                if (sessionCtx?.agentSpan) {
+                  markTurnWithIndirectInjection(sessionCtx.agentSpan, injectionEvent, toolCallId);
+                }
+              }
+
+              // ═══ SECURITY DETECTION 5: Secret Exposure ═══
+              const secretEvent = checkSecretExposure(
+                textParts.join("\n"),
+                "tool_result",
+                span,
+                securityCounters,
+                sessionKey,
+                agentId,
+                securityRules,
+                toolName
+              );
+              if (secretEvent) {
+                emitSecurityEvent(secretEvent, span);
+              }
+              resultFlagged = Boolean(injectionEvent || secretEvent);
+            }
           }
 
           if (message?.is_error === true || message?.isError === true) {
+            failed = true;
             counters.toolErrors.add(1, { "tool.name": toolName });
             span.setStatus({ code: SpanStatusCode.ERROR, message: "Tool execution error" });
-          } else if (!securityEvent) {
+          } else if (!securityEvent && !resultFlagged) {
             // Only set OK status if no security event
             span.setStatus({ code: SpanStatusCode.OK });
           }
@@ -309,7 +724,7 @@ export function registerHooks(
           span.setStatus({ code: SpanStatusCode.OK });
         }
 
-        span.end();
+        finishToolSpan(span, toolName, startTime, failed ? "error" : "success");
       } catch (err) {
         logger.warn?.(`[otel] tool_result_persist hook error: ${err instanceof Error ? err.message : String(err)}`);
       }
@@ -327,7 +742,8 @@ export function registerHooks(
   // Event shape from OpenClaw:
   //   event: { messages, success, error?, durationMs }
   //   ctx:   { agentId, sessionKey, workspaceDir, messageProvider? }
-  // Token usage is embedded in the last assistant message's .usage field.
+  // Token usage is accumulated from model.usage diagnostic events, falling
+  // back to the assistant messages' .usage fields.
 
   api.on(
     "agent_end",
@@ -339,52 +755,30 @@ export function registerHooks(
         const success = event?.success !== false;
         const errorMsg = event?.error;
 
-        // Try to get usage from diagnostic events (includes cost!)
-        const diagUsage = getPendingUsage(sessionKey);
+        // Usage accumulated from diagnostic events across every LLM call
+        // in this turn (includes cost!)
+        const diagUsage = takeTurnUsage(sessionKey);
 
         // Fallback: Extract token usage from the messages array
         const messages: any[] = event?.messages || [];
-        let totalInputTokens = 0;
-        let totalOutputTokens = 0;
-        let cacheReadTokens = 0;
-        let cacheWriteTokens = 0;
-        let model = "unknown";
-        let costUsd: number | undefined;
+        const turnUsage = diagUsage || usageFromMessages(messages);
+        const model = turnUsage.model;
+
+        // Messages carry no cost — estimate it from the pricing catalog
+        if (!diagUsage) {
+          priceTurnUsage(turnUsage, telemetry.pricing);
+        }
 
         if (diagUsage) {
-          // Use diagnostic event data (more accurate, includes cost)
-          totalInputTokens = diagUsage.usage.input || 0;
-          totalOutputTokens = diagUsage.usage.output || 0;
-          cacheReadTokens = diagUsage.usage.cacheRead || 0;
-          cacheWriteTokens = diagUsage.usage.cacheWrite || 0;
-          model = diagUsage.model || "unknown";
-          costUsd = diagUsage.costUsd;
-          logger.debug?.(`[otel] agent_end using diagnostic data: cost=$${costUsd?.toFixed(4) || "?"}`);
-        } else {
-          // Fallback: parse messages manually
-          for (const msg of messages) {
-            if (msg?.role === "assistant" && msg?.usage) {
-              const u = msg.usage;
-              // pi-ai stores usage as .input/.output (normalized names)
-              if (typeof u.input === "number") totalInputTokens += u.input;
-              else if (typeof u.inputTokens === "number") totalInputTokens += u.inputTokens;
-              else if (typeof u.input_tokens === "number") totalInputTokens += u.input_tokens;
-
-              if (typeof u.output === "number") totalOutputTokens += u.output;
-              else if (typeof u.outputTokens === "number") totalOutputTokens += u.outputTokens;
-              else if (typeof u.output_tokens === "number") totalOutputTokens += u.output_tokens;
-
-              if (typeof u.cacheRead === "number") cacheReadTokens += u.cacheRead;
-              if (typeof u.cacheWrite === "number") cacheWriteTokens += u.cacheWrite;
-            }
-            if (msg?.role === "assistant" && msg?.model) {
-              model = msg.model;
-            }
-          }
+          logger.debug?.(`[otel] agent_end using diagnostic data: calls=${diagUsage.calls}, cost=$${diagUsage.costUsd?.toFixed(4) || "?"}`);
         }
+        logger.debug?.(`[otel] agent_end tokens: input=${turnUsage.input}, output=${turnUsage.output}, cache_read=${turnUsage.cacheRead}, cache_write=${turnUsage.cacheWrite}, model=${model}`);
 
-        const totalTokens = totalInputTokens + totalOutputTokens + cacheReadTokens + cacheWriteTokens;
-        logger.debug?.(`[otel] agent_end tokens: input=${totalInputTokens}, output=${totalOutputTokens}, cache_read=${cacheReadTokens}, cache_write=${cacheWriteTokens}, model=${model}`);
+        // Final assistant reply — scanned for secrets, captured if enabled
+        const assistantMessages = messages.filter((m: any) => m?.role === "assistant");
+        const replyText = assistantMessages.length > 0
+          ? messageText(assistantMessages[assistantMessages.length - 1])
+          : "";
 
         // Content capture (gen_ai.prompt and gen_ai.completion)
         let inputContent = "";
@@ -393,33 +787,41 @@ export function registerHooks(
           // Extract last user message as input
           const userMessages = messages.filter((m: any) => m?.role === "user");
           if (userMessages.length > 0) {
-            const lastUserMsg = userMessages[userMessages.length - 1];
-            if (typeof lastUserMsg.content === "string") {
-              inputContent = lastUserMsg.content;
-            } else if (Array.isArray(lastUserMsg.content)) {
-              inputContent = lastUserMsg.content
-                .filter((c: any) => c.type === "text")
-                .map((c: any) => c.text || "")
-                .join("\n");
-            }
-          }
-          // Extract last assistant message as output
-          const assistantMessages = messages.filter((m: any) => m?.role === "assistant");
-          if (assistantMessages.length > 0) {
-            const lastAssistantMsg = assistantMessages[assistantMessages.length - 1];
-            if (typeof lastAssistantMsg.content === "string") {
-              outputContent = lastAssistantMsg.content;
-            } else if (Array.isArray(lastAssistantMsg.content)) {
-              outputContent = lastAssistantMsg.content
-                .filter((c: any) => c.type === "text")
-                .map((c: any) => c.text || "")
-                .join("\n");
-            }
+            inputContent = messageText(userMessages[userMessages.length - 1]);
           }
+          // Last assistant message as output
+          outputContent = replyText;
         }
 
+        // Scrub secrets/PII before the content leaves the process
+        inputContent = telemetry.redact(inputContent) ?? "";
+        outputContent = telemetry.redact(outputContent) ?? "";
+
         const sessionCtx = sessionContextMap.get(sessionKey);
 
+        sessions.recordTurn(sessionKey, turnUsage.total, turnUsage.costUsd);
+        sessions.recordContext(sessionKey, turnUsage.maxContextUsed, turnUsage.contextLimit);
+
+        // Charge the turn against the configured budgets
+        if (budgets.enabled) {
+          const crossings = budgets.record(
+            { sessionKey, agentId, channel: sessionCtx?.channel || ctx?.messageProvider || "unknown" },
+            turnUsage.costUsd ?? 0,
+            turnUsage.total
+          );
+          for (const crossing of crossings) {
+            recordBudgetCrossing(telemetry, crossing, sessionCtx?.agentSpan);
+          }
+        }
+
+        // Tools still running when the turn ended will not report a result
+        for (const [key, pending] of pendingToolSpans) {
+          if (pending.sessionKey !== sessionKey) continue;
+          pendingToolSpans.delete(key);
+          pending.span.setStatus({ code: SpanStatusCode.ERROR, message: "Tool did not return before the turn ended" });
+          finishToolSpan(pending.span, pending.toolName, pending.startTime, "incomplete");
+        }
+
         // End the agent turn span
         if (sessionCtx?.agentSpan) {
           const agentSpan = sessionCtx.agentSpan;
@@ -428,33 +830,27 @@ export function registerHooks(
             agentSpan.setAttribute("openclaw.agent.duration_ms", durationMs);
           }
 
-          // Token usage — GenAI semantic convention attributes
-          agentSpan.setAttribute("gen_ai.usage.input_tokens", totalInputTokens);
-          agentSpan.setAttribute("gen_ai.usage.output_tokens", totalOutputTokens);
-          agentSpan.setAttribute("gen_ai.usage.total_tokens", totalTokens);
-          agentSpan.setAttribute("gen_ai.response.model", model);
           agentSpan.setAttribute("openclaw.agent.success", success);
 
-          // Cache tokens (custom attributes)
-          if (cacheReadTokens > 0) {
-            agentSpan.setAttribute("gen_ai.usage.cache_read_tokens", cacheReadTokens);
-          }
-          if (cacheWriteTokens > 0) {
-            agentSpan.setAttribute("gen_ai.usage.cache_write_tokens", cacheWriteTokens);
+          // ═══ SECURITY DETECTION 5: Secret Exposure (assistant reply) ═══
+          const replySecretEvent = replyText
+            ? checkSecretExposure(
+                replyText,
+                "assistant_message",
+                agentSpan,
+                securityCounters,
+                sessionKey,
+                agentId,
+                securityRules
+              )
+            : null;
+          if (replySecretEvent) {
+            emitSecurityEvent(replySecretEvent, agentSpan);
           }
 
-          // Cost (from diagnostic events) — this is the key addition!
-          if (typeof costUsd === "number") {
-            agentSpan.setAttribute("openclaw.llm.cost_usd", costUsd);
-          }
-
-          // Context window (from diagnostic events)
-          if (diagUsage?.context?.limit) {
-            agentSpan.setAttribute("openclaw.context.limit", diagUsage.context.limit);
-          }
-          if (diagUsage?.context?.used) {
-            agentSpan.setAttribute("openclaw.context.used", diagUsage.context.used);
-          }
+          // Token usage, cost, context window and per-model breakdown
+          // accumulated across all LLM calls in the turn
+          applyTurnUsageToSpan(agentSpan, turnUsage);
 
           // Content capture (GenAI semantic conventions)
           if (inputContent) {
@@ -466,15 +862,18 @@ export function registerHooks(
 
           // Record metrics only if we didn't get them from diagnostics
           // (diagnostics module already records metrics on model.usage event)
-          if (!diagUsage && (totalInputTokens > 0 || totalOutputTokens > 0)) {
+          if (!diagUsage && (turnUsage.input > 0 || turnUsage.output > 0)) {
             const metricAttrs = {
               "gen_ai.response.model": model,
               "openclaw.agent.id": agentId,
             };
-            counters.tokensPrompt.add(totalInputTokens + cacheReadTokens + cacheWriteTokens, metricAttrs);
-            counters.tokensCompletion.add(totalOutputTokens, metricAttrs);
-            counters.tokensTotal.add(totalTokens, metricAttrs);
+            counters.tokensPrompt.add(turnUsage.input + turnUsage.cacheRead + turnUsage.cacheWrite, metricAttrs);
+            counters.tokensCompletion.add(turnUsage.output, metricAttrs);
+            counters.tokensTotal.add(turnUsage.total, metricAttrs);
             counters.llmRequests.add(1, metricAttrs);
+            if (turnUsage.costUsd) {
+              counters.llmCost.add(turnUsage.costUsd, metricAttrs);
+            }
           }
 
           // Record duration histogram
@@ -488,7 +887,7 @@ export function registerHooks(
           if (errorMsg) {
             agentSpan.setAttribute("openclaw.agent.error", String(errorMsg).slice(0, 500));
             agentSpan.setStatus({ code: SpanStatusCode.ERROR, message: String(errorMsg).slice(0, 200) });
-          } else {
+          } else if (!replySecretEvent) {
             agentSpan.setStatus({ code: SpanStatusCode.OK });
           }
 
@@ -507,14 +906,17 @@ export function registerHooks(
           if (outputContent) {
             sessionCtx.rootSpan.setAttribute("gen_ai.completion", outputContent.slice(0, 10000));
           }
-          sessionCtx.rootSpan.setAttribute("gen_ai.usage.input_tokens", totalInputTokens);
-          sessionCtx.rootSpan.setAttribute("gen_ai.usage.output_tokens", totalOutputTokens);
-          sessionCtx.rootSpan.setAttribute("gen_ai.response.model", model);
+          applyTurnUsageToSpan(sessionCtx.rootSpan, turnUsage);
 
           sessionCtx.rootSpan.setStatus({ code: SpanStatusCode.OK });
           sessionCtx.rootSpan.end();
         }
 
+        // Keep the request linkable while the reply is delivered
+        if (sessionCtx) {
+          outbound.remember(sessionKey, sessionCtx.channel, sessionCtx.rootContext);
+        }
+
         // Clean up
         sessionContextMap.delete(sessionKey);
         activeAgentSpans.delete(sessionKey);
@@ -529,6 +931,104 @@ export function registerHooks(
 
   logger.info("[otel] Registered agent_end hook (via api.on)");
 
+  // ── message_sending / message_sent ───────────────────────────────
+  // Outbound delivery, once per chunk the channel adapter sends.
+  // Event shapes from OpenClaw:
+  //   message_sending: event { to, content, metadata? }
+  //   message_sent:    event { to, content, success, error? }
+  //   ctx:             { channelId, accountId?, conversationId? }
+  // Neither carries the agent session key — outbound.ts matches the
+  // delivery to its request by channel and recipient.
+
+  const deliveryKey = (channel: string, to: string) => `${channel}\0${to}`;
+
+  const startDeliverySpan = (
+    channel: string,
+    to: string,
+    content: string,
+    request: OutboundRequest | undefined
+  ): Span => {
+    const bytes = Buffer.byteLength(content);
+    const attributes: Record<string, string | number> = {
+      "openclaw.message.channel": channel,
+      "openclaw.message.direction": "outbound",
+      "openclaw.message.to": to,
+      "openclaw.message.size_bytes": bytes,
+    };
+    if (request) {
+      request.chunks += 1;
+      attributes["openclaw.session.key"] = request.sessionKey;
+      attributes["openclaw.message.chunk_index"] = request.chunks;
+    }
+
+    histograms.messageSize.record(bytes, { "openclaw.message.channel": channel });
+
+    return tracer.startSpan(
+      "openclaw.message.sent",
+      { kind: SpanKind.PRODUCER, attributes },
+      request?.rootContext
+    );
+  };
+
+  api.on(
+    "message_sending",
+    (event: any, ctx: any) => {
+      try {
+        const channel = ctx?.channelId || "unknown";
+        const to = event?.to || "unknown";
+        const content = typeof event?.content === "string" ? event.content : "";
+
+        const request = outbound.match(channel, [event?.to, ctx?.conversationId]);
+        outbound.begin(deliveryKey(channel, to), startDeliverySpan(channel, to, content, request), request);
+      } catch (err) {
+        logger.warn?.(`[otel] message_sending hook error: ${err instanceof Error ? err.message : String(err)}`);
+      }
+
+      // Observe only — never rewrite or cancel the message
+      return undefined;
+    },
+    { priority: -100 } // Run last — see the content other plugins settled on
+  );
+
+  api.on(
+    "message_sent",
+    (event: any, ctx: any) => {
+      try {
+        const channel = ctx?.channelId || "unknown";
+        const to = event?.to || "unknown";
+        const success = event?.success !== false;
+
+        // message_sending may not have fired (e.g. hook added mid-delivery)
+        let delivery: PendingDelivery | undefined = outbound.finish(deliveryKey(channel, to));
+        if (!delivery) {
+          const content = typeof event?.content === "string" ? event.content : "";
+          const request = outbound.match(channel, [event?.to, ctx?.conversationId]);
+          delivery = { span: startDeliverySpan(channel, to, content, request), startedAt: Date.now(), request };
+        }
+
+        const { span } = delivery;
+        span.setAttribute("openclaw.message.success", success);
+        if (success) {
+          counters.messagesSent.add(1, { "openclaw.message.channel": channel });
+          span.setStatus({ code: SpanStatusCode.OK });
+        } else {
+          const error = String(event?.error || "delivery failed").slice(0, 200);
+          counters.messagesFailed.add(1, { "openclaw.message.channel": channel });
+          span.setAttribute("openclaw.message.error", error);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: error });
+        }
+        span.end();
+
+        logger.debug?.(`[otel] Message sent span recorded for channel=${channel}, success=${success}`);
+      } catch (err) {
+        logger.warn?.(`[otel] message_sent hook error: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    },
+    { priority: -100 }
+  );
+
+  logger.info("[otel] Registered message_sending/message_sent hooks (via api.on)");
+
   // ═══════════════════════════════════════════════════════════════════
   // EVENT-STREAM HOOKS — registered via api.registerHook()
   // ═══════════════════════════════════════════════════════════════════
@@ -563,6 +1063,9 @@ export function registerHooks(
           counters.sessionResets.add(1, {
             "command.source": event?.context?.commandSource || "unknown",
           });
+          // The next turn on this key starts a new session, with a fresh budget
+          sessions.end(sessionKey, action);
+          budgets.endSession(sessionKey);
         }
 
         span.setStatus({ code: SpanStatusCode.OK });
@@ -606,22 +1109,110 @@ export function registerHooks(
 
   logger.info("[otel] Registered gateway:startup hook (via api.registerHook)");
 
-  // ── Periodic cleanup ─────────────────────────────────────────────
-  // Safety net: clean up stale session contexts (e.g., if agent_end never fires)
-  setInterval(() => {
+  // ── Orphaned spans ───────────────────────────────────────────────
+  // Safety net for end hooks that never fire (crashed runs, tools that hang):
+  // spans past their timeout are closed with an error status and
+  // openclaw.trace.orphaned, and counted by cause.
+
+  const { timeouts } = config;
+
+  type OrphanCause = "turn_timeout" | "request_timeout" | "tool_timeout" | "shutdown";
+
+  const markOrphaned = (span: Span, cause: OrphanCause, message: string): void => {
+    span.setAttribute("openclaw.trace.orphaned", true);
+    span.setAttribute("openclaw.trace.orphan_cause", cause);
+    span.setStatus({ code: SpanStatusCode.ERROR, message });
+  };
+
+  /** Close a session's turn and request spans (and its running tools) */
+  const closeOrphanedContext = (sessionKey: string, ctx: SessionTraceContext, cause: OrphanCause): void => {
+    const message =
+      cause === "shutdown"
+        ? "Gateway stopped before the request finished"
+        : `Request did not finish within ${cause === "turn_timeout" ? timeouts.turnMs : timeouts.requestMs}ms`;
+    try {
+      for (const [key, pending] of pendingToolSpans) {
+        if (pending.sessionKey !== sessionKey) continue;
+        pendingToolSpans.delete(key);
+        markOrphaned(pending.span, cause, message);
+        finishToolSpan(pending.span, pending.toolName, pending.startTime, "incomplete");
+      }
+      if (ctx.agentSpan) {
+        markOrphaned(ctx.agentSpan, cause, message);
+        ctx.agentSpan.end();
+      }
+      if (ctx.rootSpan !== ctx.agentSpan) {
+        markOrphaned(ctx.rootSpan, cause, message);
+        ctx.rootSpan.end();
+      }
+    } catch (err) {
+      logger.warn?.(`[otel] Orphaned context cleanup error for session=${sessionKey}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    sessionContextMap.delete(sessionKey);
+    activeAgentSpans.delete(sessionKey);
+    takeTurnUsage(sessionKey);
+    // agent_end will not come — let the session go idle from here
+    sessions.endTurn(sessionKey);
+    counters.tracesOrphaned.add(1, { cause });
+    logger.debug?.(`[otel] Closed orphaned trace (${cause}) for session=${sessionKey}`);
+  };
+
+  const sweep = (): void => {
     const now = Date.now();
-    const maxAge = 5 * 60 * 1000; // 5 minutes
+    for (const sessionKey of sessions.sweep(now)) {
+      budgets.endSession(sessionKey);
+    }
+
     for (const [key, ctx] of sessionContextMap) {
-      if (now - ctx.startTime > maxAge) {
-        try {
-          ctx.agentSpan?.end();
-          if (ctx.rootSpan !== ctx.agentSpan) ctx.rootSpan?.end();
-        } catch (err) {
-          logger.warn?.(`[otel] Stale context cleanup error for session=${key}: ${err instanceof Error ? err.message : String(err)}`);
-        }
-        sessionContextMap.delete(key);
-        logger.debug?.(`[otel] Cleaned up stale trace context for session=${key}`);
+      if (ctx.agentSpan && ctx.agentStartTime !== undefined && now - ctx.agentStartTime > timeouts.turnMs) {
+        closeOrphanedContext(key, ctx, "turn_timeout");
+      } else if (now - ctx.startTime > timeouts.requestMs) {
+        closeOrphanedContext(key, ctx, "request_timeout");
       }
     }
-  }, 60_000);
+
+    // Tools that never returned, in turns that are still running
+    for (const [key, pending] of pendingToolSpans) {
+      if (now - pending.startTime <= timeouts.toolMs) continue;
+      pendingToolSpans.delete(key);
+      pending.span.setAttribute("openclaw.tool.timed_out", true);
+      markOrphaned(pending.span, "tool_timeout", `Tool did not return within ${timeouts.toolMs}ms`);
+      finishToolSpan(pending.span, pending.toolName, pending.startTime, "timeout");
+      counters.tracesOrphaned.add(1, { cause: "tool_timeout" });
+    }
+
+    // Deliveries whose message_sent never arrived
+    for (const { span } of outbound.takeAbandoned(now)) {
+      span.setAttribute("openclaw.message.abandoned", true);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: "No delivery result reported" });
+      span.end();
+    }
+  };
+
+  // Check often enough that the shortest timeout is honoured within ~10%
+  const sweepIntervalMs = Math.min(60_000, Math.max(1000, Math.min(timeouts.turnMs, timeouts.toolMs) / 10));
+  const sweepTimer = setInterval(() => {
+    try {
+      sweep();
+    } catch (err) {
+      logger.warn?.(`[otel] Cleanup sweep error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, sweepIntervalMs);
+  // Never keep the gateway process alive just for the sweep
+  sweepTimer.unref?.();
+
+  // Stop the sweep and close whatever is still open, so it is exported
+  // before the providers shut down
+  return () => {
+    clearInterval(sweepTimer);
+    for (const [key, ctx] of [...sessionContextMap]) {
+      closeOrphanedContext(key, ctx, "shutdown");
+    }
+    for (const [key, pending] of [...pendingToolSpans]) {
+      pendingToolSpans.delete(key);
+      markOrphaned(pending.span, "shutdown", "Gateway stopped before the tool returned");
+      finishToolSpan(pending.span, pending.toolName, pending.startTime, "incomplete");
+    }
+    clearPendingConfirmations();
+  };
 }
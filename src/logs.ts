@@ -0,0 +1,112 @@
+/**
+ * OTLP log signal — turns the plugin's own logger lines, hook errors and
+ * security detections into OpenTelemetry log records.
+ *
+ * Records carry the trace/span IDs of the span they relate to (or of the
+ * active context), so backends can jump from a log line to its trace.
+ */
+
+import { context, trace, type Span } from "@opentelemetry/api";
+import { SeverityNumber, type Logger, type LogAttributes } from "@opentelemetry/api-logs";
+import type { SecurityEvent, Severity } from "./security.js";
+import { passthroughRedactor, type Redactor } from "./redaction.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_SEVERITY: Record<LogLevel, { number: SeverityNumber; text: string }> = {
+  debug: { number: SeverityNumber.DEBUG, text: "DEBUG" },
+  info: { number: SeverityNumber.INFO, text: "INFO" },
+  warn: { number: SeverityNumber.WARN, text: "WARN" },
+  error: { number: SeverityNumber.ERROR, text: "ERROR" },
+};
+
+/** Security severities mapped onto log levels */
+const SECURITY_LEVEL: Record<Severity, LogLevel> = {
+  critical: "error",
+  high: "error",
+  warning: "warn",
+  info: "info",
+};
+
+/**
+ * Emit a single log record. When a span is given, the record is
+ * correlated with it; otherwise with whatever span is active.
+ */
+export function emitLogRecord(
+  otelLogger: Logger,
+  level: LogLevel,
+  body: string,
+  attributes: LogAttributes = {},
+  span?: Span,
+  eventName?: string
+): void {
+  try {
+    const severity = LEVEL_SEVERITY[level];
+    otelLogger.emit({
+      eventName,
+      severityNumber: severity.number,
+      severityText: severity.text,
+      body,
+      attributes,
+      context: span ? trace.setSpan(context.active(), span) : context.active(),
+    });
+  } catch {
+    // Never let log export errors affect the gateway
+  }
+}
+
+/**
+ * Emit a structured log record for a security detection.
+ * Details (command lines, message previews) go through the redactor first.
+ */
+export function emitSecurityLog(
+  otelLogger: Logger,
+  event: SecurityEvent,
+  span?: Span,
+  redact: Redactor = passthroughRedactor
+): void {
+  const description = redact(event.description) ?? "[REDACTED]";
+  const attributes: LogAttributes = {
+    "security.event.detection": event.detection,
+    "security.event.severity": event.severity,
+    "security.event.description": description,
+    "security.event.timestamp": event.timestamp,
+    "openclaw.session.key": event.sessionKey,
+  };
+  const details = redact(JSON.stringify(event.details));
+  if (details !== undefined) {
+    attributes["security.event.details"] = details;
+  }
+  if (event.agentId) {
+    attributes["openclaw.agent.id"] = event.agentId;
+  }
+
+  emitLogRecord(
+    otelLogger,
+    SECURITY_LEVEL[event.severity],
+    `SECURITY: ${event.detection} - ${description}`,
+    attributes,
+    span,
+    "openclaw.security.event"
+  );
+}
+
+/**
+ * Wrap the OpenClaw plugin logger so that every info/warn/error line is
+ * also exported as an OTLP log record. Debug lines stay local — they are
+ * too chatty to ship by default.
+ */
+export function createLogBridge(base: any, otelLogger: Logger): any {
+  const forward = (level: Exclude<LogLevel, "debug">) => (message: string) => {
+    base?.[level]?.(message);
+    emitLogRecord(otelLogger, level, String(message), { "openclaw.log.source": "plugin" });
+  };
+
+  return {
+    ...base,
+    debug: base?.debug ? (message: string) => base.debug(message) : undefined,
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+}
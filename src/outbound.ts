@@ -0,0 +1,99 @@
+/**
+ * Outbound message correlation — ties channel deliveries (message_sending /
+ * message_sent) back to the request trace that produced them.
+ *
+ * Delivery hooks receive the channel ID and recipient, not the agent-runtime
+ * session key, and usually fire after agent_end has closed the request. So
+ * each request is remembered for a short grace period after it ends, and a
+ * delivery is matched to the most recent request on the same channel whose
+ * session key names the recipient/conversation ID. Without such a match the
+ * delivery stays unlinked — it is never attributed to another user's request.
+ *
+ * A delivery span starts at message_sending and ends at message_sent, so its
+ * duration is the channel's send latency. Each delivery for the same request
+ * is one chunk (long replies are split by the channel adapter).
+ */
+
+import type { Context, Span } from "@opentelemetry/api";
+import { sessionKeyHasId } from "./propagation.js";
+
+/** How long after a request ends its deliveries are still attributed to it */
+const REQUEST_GRACE_MS = 2 * 60 * 1000;
+
+/** A delivery that never reports back is abandoned after this long */
+const PENDING_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface OutboundRequest {
+  sessionKey: string;
+  channel: string;
+  rootContext: Context;
+  updatedAt: number;
+  /** Deliveries attributed to this request so far */
+  chunks: number;
+}
+
+export interface PendingDelivery {
+  span: Span;
+  startedAt: number;
+  request?: OutboundRequest;
+}
+
+export class OutboundCorrelator {
+  private readonly requests = new Map<string, OutboundRequest>();
+  private readonly pending = new Map<string, PendingDelivery[]>();
+
+  /** Remember (or refresh) a request that may produce outbound messages */
+  remember(sessionKey: string, channel: string, rootContext: Context, now = Date.now()): void {
+    const existing = this.requests.get(sessionKey);
+    if (existing && existing.rootContext === rootContext) {
+      existing.updatedAt = now;
+      return;
+    }
+    this.requests.set(sessionKey, { sessionKey, channel, rootContext, updatedAt: now, chunks: 0 });
+  }
+
+  /** The request a delivery on this channel belongs to, if one names the recipient */
+  match(channel: string, recipients: Array<string | undefined>, now = Date.now()): OutboundRequest | undefined {
+    const ids = recipients.filter((id): id is string => Boolean(id));
+    let best: OutboundRequest | undefined;
+    for (const [key, request] of this.requests) {
+      if (now - request.updatedAt > REQUEST_GRACE_MS) {
+        this.requests.delete(key);
+        continue;
+      }
+      if (request.channel !== channel) continue;
+      if (!ids.some((id) => sessionKeyHasId(request.sessionKey, id))) continue;
+      if (!best || request.updatedAt > best.updatedAt) {
+        best = request;
+      }
+    }
+    return best;
+  }
+
+  /** Track a delivery that has started */
+  begin(deliveryKey: string, span: Span, request?: OutboundRequest, now = Date.now()): void {
+    const queue = this.pending.get(deliveryKey) ?? [];
+    queue.push({ span, startedAt: now, request });
+    this.pending.set(deliveryKey, queue);
+  }
+
+  /** The oldest started delivery for this key, removed from tracking */
+  finish(deliveryKey: string): PendingDelivery | undefined {
+    const queue = this.pending.get(deliveryKey);
+    const delivery = queue?.shift();
+    if (queue && queue.length === 0) this.pending.delete(deliveryKey);
+    return delivery;
+  }
+
+  /** Remove and return deliveries that never reported a result */
+  takeAbandoned(now = Date.now()): PendingDelivery[] {
+    const abandoned: PendingDelivery[] = [];
+    for (const [key, queue] of this.pending) {
+      while (queue.length > 0 && now - queue[0].startedAt > PENDING_TIMEOUT_MS) {
+        abandoned.push(queue.shift()!);
+      }
+      if (queue.length === 0) this.pending.delete(key);
+    }
+    return abandoned;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Model pricing catalog — estimates LLM cost from token counts when
+ * OpenClaw's diagnostic events (which carry the real cost) are unavailable,
+ * and cross-checks the cost they report.
+ *
+ * Prices are USD per million tokens and date-versioned: the entry with the
+ * latest `effectiveFrom` on or before the call's date applies. Entries from
+ * the `pricing.models` config replace the bundled ones for their
+ * provider/model entirely.
+ *
+ * Model names match exactly or by prefix, so dated snapshots
+ * ("claude-sonnet-4-5-20250929") and provider prefixes
+ * ("anthropic/claude-sonnet-4-5") resolve to the base model. The longest
+ * matching name wins.
+ */
+
+import type { ModelPrice, PricingConfig } from "./config.js";
+import type { TurnUsage } from "./usage.js";
+
+/** Bundled list prices — override via pricing.models when they drift */
+export const BUILTIN_PRICING: ModelPrice[] = [
+  // Anthropic
+  { provider: "anthropic", model: "claude-opus-4-5", effectiveFrom: "2025-11-24", input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  { provider: "anthropic", model: "claude-opus-4-1", effectiveFrom: "2025-08-05", input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  { provider: "anthropic", model: "claude-opus-4", effectiveFrom: "2025-05-22", input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  { provider: "anthropic", model: "claude-sonnet-4-5", effectiveFrom: "2025-09-29", input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  { provider: "anthropic", model: "claude-sonnet-4", effectiveFrom: "2025-05-22", input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  { provider: "anthropic", model: "claude-3-7-sonnet", effectiveFrom: "2025-02-24", input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  { provider: "anthropic", model: "claude-haiku-4-5", effectiveFrom: "2025-10-15", input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  { provider: "anthropic", model: "claude-3-5-haiku", effectiveFrom: "2024-11-04", input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+
+  // OpenAI
+  { provider: "openai", model: "gpt-5", effectiveFrom: "2025-08-07", input: 1.25, output: 10, cacheRead: 0.125 },
+  { provider: "openai", model: "gpt-5-mini", effectiveFrom: "2025-08-07", input: 0.25, output: 2, cacheRead: 0.025 },
+  { provider: "openai", model: "gpt-5-nano", effectiveFrom: "2025-08-07", input: 0.05, output: 0.4, cacheRead: 0.005 },
+  { provider: "openai", model: "gpt-4.1", effectiveFrom: "2025-04-14", input: 2, output: 8, cacheRead: 0.5 },
+  { provider: "openai", model: "gpt-4.1-mini", effectiveFrom: "2025-04-14", input: 0.4, output: 1.6, cacheRead: 0.1 },
+  { provider: "openai", model: "gpt-4o", effectiveFrom: "2024-10-01", input: 2.5, output: 10, cacheRead: 1.25 },
+  { provider: "openai", model: "gpt-4o-mini", effectiveFrom: "2024-07-18", input: 0.15, output: 0.6, cacheRead: 0.075 },
+  { provider: "openai", model: "o3", effectiveFrom: "2025-04-16", input: 10, output: 40, cacheRead: 2.5 },
+  { provider: "openai", model: "o3", effectiveFrom: "2025-06-10", input: 2, output: 8, cacheRead: 0.5 },
+  { provider: "openai", model: "o3-mini", effectiveFrom: "2025-01-31", input: 1.1, output: 4.4, cacheRead: 0.55 },
+  { provider: "openai", model: "o4-mini", effectiveFrom: "2025-04-16", input: 1.1, output: 4.4, cacheRead: 0.275 },
+
+  // Google (prompts up to 200K tokens)
+  { provider: "google", model: "gemini-2.5-pro", effectiveFrom: "2025-06-17", input: 1.25, output: 10, cacheRead: 0.31 },
+  { provider: "google", model: "gemini-2.5-flash", effectiveFrom: "2025-06-17", input: 0.3, output: 2.5, cacheRead: 0.075 },
+];
+
+/** Token counts to price */
+export interface PricedTokens {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Name length when `candidate` is `model` or a prefix of it, else 0 */
+function matchLength(model: string, candidate: string): number {
+  if (model === candidate) return candidate.length;
+  if (model.startsWith(candidate) && /[-@:.]/.test(model[candidate.length])) {
+    return candidate.length;
+  }
+  return 0;
+}
+
+export class PricingCatalog {
+  private readonly overrides: ModelPrice[];
+  private readonly tolerance: number;
+
+  constructor(config: PricingConfig) {
+    this.tolerance = config.crossCheckTolerance;
+    this.overrides = config.models.map((entry) => ({
+      ...entry,
+      provider: entry.provider.toLowerCase(),
+      model: entry.model.toLowerCase(),
+    }));
+  }
+
+  /**
+   * Prices for a model on a given date. Entries for the call's provider are
+   * preferred; otherwise any provider's prices for the model apply (the same
+   * model served through a gateway or cloud marketplace).
+   */
+  lookup(provider: string | undefined, model: string | undefined, now = Date.now()): ModelPrice | undefined {
+    if (!model) return undefined;
+    const name = model.toLowerCase().split("/").pop()!;
+    const date = new Date(now).toISOString().slice(0, 10);
+
+    // An override wins unless the bundled catalog knows a more specific name
+    const overridden = this.find(this.overrides, provider, name);
+    const bundled = this.find(BUILTIN_PRICING, provider, name);
+    const entries = overridden.length >= bundled.length ? overridden.entries : bundled.entries;
+    return entries
+      .filter((entry) => entry.effectiveFrom <= date)
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+  }
+
+  /** Estimated cost in USD, or undefined when the model is not in the catalog */
+  estimate(provider: string | undefined, model: string | undefined, tokens: PricedTokens, now = Date.now()): number | undefined {
+    const price = this.lookup(provider, model, now);
+    if (!price) return undefined;
+    return (
+      tokens.input * price.input +
+      tokens.output * price.output +
+      tokens.cacheRead * (price.cacheRead ?? price.input) +
+      tokens.cacheWrite * (price.cacheWrite ?? price.input)
+    ) / 1_000_000;
+  }
+
+  /**
+   * Whether a reported cost differs from the catalog estimate by more than
+   * the configured tolerance (relative to the estimate).
+   */
+  isMismatch(reported: number, estimated: number): boolean {
+    if (estimated === 0) return reported !== 0;
+    return Math.abs(reported - estimated) / estimated > this.tolerance;
+  }
+
+  /** Entries for the best-matching model name, preferring the provider's own */
+  private find(
+    entries: ModelPrice[],
+    provider: string | undefined,
+    name: string
+  ): { length: number; entries: ModelPrice[] } {
+    let best = 0;
+    let matches: ModelPrice[] = [];
+    for (const entry of entries) {
+      const length = matchLength(name, entry.model);
+      if (length === 0 || length < best) continue;
+      if (length > best) {
+        best = length;
+        matches = [];
+      }
+      matches.push(entry);
+    }
+    const own = matches.filter((entry) => entry.provider === provider?.toLowerCase());
+    return { length: best, entries: own.length ? own : matches };
+  }
+}
+
+/**
+ * Fill in a turn's cost from the catalog, per model. Used when the turn's
+ * usage came from the assistant messages rather than diagnostic events.
+ * Returns false (and leaves the turn untouched) when no model is priced.
+ * When only some are, the turn cost covers those and is marked partial.
+ */
+export function priceTurnUsage(turn: TurnUsage, catalog: PricingCatalog, now = Date.now()): boolean {
+  let total: number | undefined;
+  let unpriced = false;
+  for (const [model, usage] of turn.byModel) {
+    const cost = catalog.estimate(usage.provider, model, usage, now);
+    if (cost === undefined) {
+      unpriced = true;
+      continue;
+    }
+    usage.costUsd = cost;
+    total = (total ?? 0) + cost;
+  }
+  if (total === undefined) return false;
+
+  turn.costUsd = total;
+  turn.costSource = "pricing";
+  if (unpriced) turn.costPartial = true;
+  return true;
+}
@@ -0,0 +1,150 @@
+/**
+ * Prometheus scrape endpoint — a pull-based metric reader for stacks that
+ * scrape Prometheus directly instead of receiving OTLP.
+ *
+ * Metric names follow the OTel → Prometheus compatibility rules:
+ *   - dots become underscores (openclaw.tool.calls → openclaw_tool_calls)
+ *   - the unit is appended unless the name already contains it
+ *     (openclaw.tool.duration [ms] → openclaw_tool_duration_milliseconds)
+ *   - monotonic counters end in _total (openclaw_tool_calls_total)
+ *
+ * Zero-value heartbeat points (openclaw.idle=true) exist only to keep OTLP
+ * timeseries continuous; Prometheus keeps scraped series alive on its own,
+ * so they are dropped here.
+ */
+
+import { createServer, type Server } from "node:http";
+import { PrometheusSerializer } from "@opentelemetry/exporter-prometheus";
+import { MetricReader, type MetricData, type ResourceMetrics } from "@opentelemetry/sdk-metrics";
+import type { PrometheusConfig } from "./config.js";
+
+/** UCUM units → Prometheus unit words */
+const UNIT_WORDS: Record<string, string> = {
+  ms: "milliseconds",
+  s: "seconds",
+  us: "microseconds",
+  ns: "nanoseconds",
+  min: "minutes",
+  h: "hours",
+  By: "bytes",
+  KiBy: "kibibytes",
+  MiBy: "mebibytes",
+  "%": "percent",
+};
+
+/**
+ * Prometheus unit suffix for an OTel unit, or undefined when none applies
+ * (dimensionless "1" and {annotation} units carry no suffix).
+ */
+export function prometheusUnit(unit: string | undefined): string | undefined {
+  if (!unit || unit === "1") return undefined;
+  const stripped = unit.replace(/\{[^}]*\}/g, "").trim();
+  if (!stripped) return undefined;
+  return (UNIT_WORDS[stripped] || stripped).toLowerCase().replace(/[^a-z0-9_]/g, "_");
+}
+
+/**
+ * Metric name with the unit appended (before any _total, which the
+ * serializer adds for counters).
+ */
+export function prometheusName(name: string, unit: string | undefined): string {
+  const suffix = prometheusUnit(unit);
+  if (!suffix) return name;
+  const words = name.toLowerCase().split(/[._]/);
+  return words.includes(suffix) ? name : `${name}_${suffix}`;
+}
+
+function translateMetric(metric: MetricData): MetricData | undefined {
+  const dataPoints = (metric.dataPoints as Array<{ attributes: Record<string, unknown> }>).filter(
+    (point) => point.attributes["openclaw.idle"] !== true
+  );
+  if (dataPoints.length === 0) return undefined;
+
+  return {
+    ...metric,
+    descriptor: {
+      ...metric.descriptor,
+      name: prometheusName(metric.descriptor.name, metric.descriptor.unit),
+      unit: prometheusUnit(metric.descriptor.unit) ?? "",
+    },
+    dataPoints,
+  } as MetricData;
+}
+
+/**
+ * Rename metrics for Prometheus and drop heartbeat-only points.
+ */
+export function translateForPrometheus(resourceMetrics: ResourceMetrics): ResourceMetrics {
+  return {
+    ...resourceMetrics,
+    scopeMetrics: resourceMetrics.scopeMetrics.map((scope) => ({
+      ...scope,
+      metrics: scope.metrics
+        .map(translateMetric)
+        .filter((m): m is MetricData => m !== undefined),
+    })),
+  };
+}
+
+/**
+ * Pull-only reader: metrics are collected when a scrape arrives, never pushed.
+ */
+class PrometheusPullReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+
+  protected async onShutdown(): Promise<void> {}
+}
+
+export interface PrometheusEndpoint {
+  /** Metric reader to register on the MeterProvider */
+  reader: MetricReader;
+  /** Stop serving scrapes */
+  close: () => Promise<void>;
+}
+
+/**
+ * Create the Prometheus reader and start serving the scrape endpoint.
+ * Only the upstream serializer is reused — the server is our own, so names
+ * can be translated and heartbeat points filtered before serialization.
+ */
+export function startPrometheusEndpoint(config: PrometheusConfig, logger: any): PrometheusEndpoint {
+  const reader = new PrometheusPullReader();
+  const serializer = new PrometheusSerializer();
+
+  const server: Server = createServer((request, response) => {
+    const path = new URL(request.url || "/", "http://localhost").pathname;
+    if (request.method !== "GET" || path !== config.endpoint) {
+      response.statusCode = 404;
+      response.end();
+      return;
+    }
+
+    reader
+      .collect()
+      .then(({ resourceMetrics, errors }) => {
+        if (errors.length) {
+          logger.warn?.(`[otel] Prometheus collection errors: ${errors.map(String).join("; ")}`);
+        }
+        response.statusCode = 200;
+        response.setHeader("content-type", "text/plain; version=0.0.4; charset=utf-8");
+        response.end(serializer.serialize(translateForPrometheus(resourceMetrics)));
+      })
+      .catch((err) => {
+        response.statusCode = 500;
+        response.end(`# failed to collect metrics: ${err instanceof Error ? err.message : String(err)}\n`);
+      });
+  });
+
+  server.on("error", (err) => {
+    logger.error?.(`[otel] Prometheus endpoint error: ${err.message}`);
+  });
+  server.listen(config.port, config.host);
+
+  return {
+    reader,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      }),
+  };
+}
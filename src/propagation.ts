@@ -0,0 +1,146 @@
+/**
+ * W3C trace context propagation — joins the agent's traces with the
+ * caller's and carries them on into the processes and requests tools make.
+ *
+ * Inbound: a `traceparent` (plus optional `tracestate` and `baggage`) found
+ * in message metadata, Gateway RPC params or their `headers` becomes the
+ * parent of the openclaw.request root span. Channel messages arrive under a
+ * different session key than the agent turn (see hooks.ts), so contexts
+ * extracted in message_received are parked per channel and claimed by the
+ * before_agent_start whose session key names the same sender or conversation.
+ *
+ * Outbound: tool calls get the current context injected —
+ *   - env tools (exec):  TRACEPARENT / TRACESTATE / BAGGAGE environment
+ *                        variables, per the OTel env carrier spec
+ *   - header tools:      traceparent / tracestate / baggage HTTP headers
+ */
+
+import {
+  ROOT_CONTEXT,
+  defaultTextMapGetter,
+  defaultTextMapSetter,
+  trace,
+  type Context,
+} from "@opentelemetry/api";
+import { CompositePropagator, W3CBaggagePropagator, W3CTraceContextPropagator } from "@opentelemetry/core";
+
+/** How long a context extracted in message_received waits for its agent turn */
+const INBOUND_TTL_MS = 60 * 1000;
+
+const CARRIER_KEYS = ["traceparent", "tracestate", "baggage"];
+
+const propagator = new CompositePropagator({
+  propagators: [new W3CTraceContextPropagator(), new W3CBaggagePropagator()],
+});
+
+/** Lower-cased carrier fields of a plain object, if it has a traceparent */
+function carrierFields(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const carrier: Record<string, string> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const name = key.toLowerCase();
+    if (CARRIER_KEYS.includes(name) && typeof field === "string") {
+      carrier[name] = field;
+    }
+  }
+  return carrier.traceparent ? carrier : undefined;
+}
+
+/** Carrier in a value or its `headers` / `metadata` / `params`, two levels deep */
+function searchCarrier(value: unknown, depth: number): Record<string, string> | undefined {
+  const direct = carrierFields(value);
+  if (direct || depth === 0 || !value || typeof value !== "object") return direct;
+  const obj = value as Record<string, unknown>;
+  for (const nested of [obj.headers, obj.metadata, obj.params]) {
+    const found = searchCarrier(nested, depth - 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Find a W3C carrier in the given sources — each checked itself, then its
+ * `headers`, `metadata` and `params` fields (e.g. params.headers). The first
+ * with a traceparent wins.
+ */
+export function findCarrier(...sources: unknown[]): Record<string, string> | undefined {
+  for (const source of sources) {
+    const found = searchCarrier(source, 2);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Context carrying the remote parent (and baggage) from a carrier.
+ * Undefined when the traceparent is malformed.
+ */
+export function extractContext(carrier: Record<string, string>): Context | undefined {
+  const extracted = propagator.extract(ROOT_CONTEXT, carrier, defaultTextMapGetter);
+  return trace.getSpanContext(extracted) ? extracted : undefined;
+}
+
+/** traceparent / tracestate / baggage headers for a context */
+export function contextHeaders(ctx: Context): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagator.inject(ctx, headers, defaultTextMapSetter);
+  return headers;
+}
+
+/** TRACEPARENT / TRACESTATE / BAGGAGE environment variables for a context */
+export function contextEnv(ctx: Context): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(contextHeaders(ctx))) {
+    env[key.toUpperCase()] = value;
+  }
+  return env;
+}
+
+/**
+ * Whether a channel-side ID (sender, recipient, conversation) names this
+ * session key — the whole key or its trailing ":"-separated segments. An ID
+ * in the middle of a key (an account or agent name, say) is not a match.
+ */
+export function sessionKeyHasId(sessionKey: string, id: string): boolean {
+  return sessionKey === id || sessionKey.endsWith(`:${id}`);
+}
+
+interface ParkedContext {
+  channel: string;
+  /** Sender / conversation IDs, matched against the agent session key */
+  ids: string[];
+  context: Context;
+  receivedAt: number;
+}
+
+/**
+ * Contexts extracted from channel messages, waiting for their agent turn.
+ */
+export class InboundContextStore {
+  private parked: ParkedContext[] = [];
+
+  park(channel: string, ids: string[], context: Context, now = Date.now()): void {
+    this.prune(now);
+    this.parked.push({ channel, ids: ids.filter(Boolean), context, receivedAt: now });
+  }
+
+  /**
+   * Claim the context for an agent turn on this channel — only one whose
+   * sender or conversation ID ends the session key (see sessionKeyHasId).
+   * Without such a match the turn starts a fresh root: another user's
+   * message on the same channel is never its parent.
+   */
+  claim(channel: string, sessionKey: string, now = Date.now()): Context | undefined {
+    this.prune(now);
+    const match = this.parked.find(
+      (p) => p.channel === channel && p.ids.some((id) => sessionKeyHasId(sessionKey, id))
+    );
+    if (!match) return undefined;
+    this.parked = this.parked.filter((p) => p !== match);
+    return match.context;
+  }
+
+  private prune(now: number): void {
+    this.parked = this.parked.filter((p) => now - p.receivedAt <= INBOUND_TTL_MS);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Recent-trace ring buffer — keeps the last few hundred finished request
+ * traces in memory, so "the bot was slow an hour ago" can be looked into
+ * without going to the backend.
+ *
+ * Runs as its own span processor next to the export pipeline, so it also
+ * sees traces tail sampling later discards. Spans are grouped by trace ID
+ * while the trace runs; when its openclaw.request root ends, the trace is
+ * summarized and pushed into the ring buffer (evicting the oldest).
+ *
+ * Only the spans that explain a request are kept — the root, agent turns,
+ * tool calls and LLM calls — with their primitive attributes, strings
+ * truncated. Content attributes are already redacted before they reach a
+ * span (see redaction.ts).
+ */
+
+import { SpanStatusCode, type Context } from "@opentelemetry/api";
+import type { ReadableSpan, Span, SpanProcessor } from "@opentelemetry/sdk-trace-node";
+import type { RecentTracesConfig } from "./config.js";
+
+const REQUEST_SPAN_NAME = "openclaw.request";
+
+/** Longest string attribute value kept */
+const MAX_ATTRIBUTE_LENGTH = 256;
+
+/** Default and largest page size for recent() */
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+export type RecentSpanType = "request" | "turn" | "tool" | "llm";
+
+export interface RecentSpan {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  type: RecentSpanType;
+  startTime: string;
+  durationMs: number;
+  status: "ok" | "error" | "unset";
+  statusMessage?: string;
+  attributes: Record<string, string | number | boolean>;
+}
+
+export interface RecentTraceSummary {
+  traceId: string;
+  sessionKey?: string;
+  agentId?: string;
+  channel?: string;
+  startTime: string;
+  durationMs: number;
+  status: "ok" | "error";
+  spanCount: number;
+  turns: number;
+  toolCalls: number;
+  tokens?: number;
+  costUsd?: number;
+  /** Security detections tripped anywhere in the trace */
+  securityDetections: string[];
+}
+
+export interface RecentTrace extends RecentTraceSummary {
+  spans: RecentSpan[];
+}
+
+export interface RecentTraceFilter {
+  sessionKey?: string;
+  agentId?: string;
+  status?: "ok" | "error";
+  minDurationMs?: number;
+  /** Only traces with (true) or without (false) security detections */
+  security?: boolean;
+  limit?: number;
+}
+
+/** A running trace — counts cover every span, `spans` only the first maxSpansPerTrace */
+interface PendingTrace {
+  spans: RecentSpan[];
+  spanCount: number;
+  turns: number;
+  toolCalls: number;
+  tokens?: number;
+  costUsd?: number;
+  agentId?: string;
+  detections: Set<string>;
+  hasError: boolean;
+}
+
+function spanType(span: ReadableSpan): RecentSpanType | undefined {
+  if (span.name === REQUEST_SPAN_NAME) return "request";
+  if (span.name === "openclaw.agent.turn") return "turn";
+  if (span.name.startsWith("tool.")) return "tool";
+  if (span.attributes["gen_ai.operation.name"] === "chat") return "llm";
+  return undefined;
+}
+
+function hrTimeToMs(time: [number, number]): number {
+  return time[0] * 1000 + time[1] / 1e6;
+}
+
+function keyAttributes(span: ReadableSpan): Record<string, string | number | boolean> {
+  const attributes: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(span.attributes)) {
+    if (typeof value === "string") {
+      attributes[key] = value.length > MAX_ATTRIBUTE_LENGTH ? `${value.slice(0, MAX_ATTRIBUTE_LENGTH)}…` : value;
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      attributes[key] = value;
+    }
+  }
+  return attributes;
+}
+
+function toRecentSpan(span: ReadableSpan, type: RecentSpanType): RecentSpan {
+  const status =
+    span.status.code === SpanStatusCode.ERROR ? "error" : span.status.code === SpanStatusCode.OK ? "ok" : "unset";
+  return {
+    spanId: span.spanContext().spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    name: span.name,
+    type,
+    startTime: new Date(hrTimeToMs(span.startTime)).toISOString(),
+    durationMs: Math.round(hrTimeToMs(span.duration)),
+    status,
+    statusMessage: span.status.message,
+    attributes: keyAttributes(span),
+  };
+}
+
+/** A filter from Gateway RPC params or CLI options; unknown fields are ignored */
+export function parseTraceFilter(raw: unknown): RecentTraceFilter {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const number = (value: unknown) => {
+    const parsed = typeof value === "string" ? Number(value) : value;
+    return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+  };
+  return {
+    sessionKey: typeof obj.sessionKey === "string" && obj.sessionKey ? obj.sessionKey : undefined,
+    agentId: typeof obj.agentId === "string" && obj.agentId ? obj.agentId : undefined,
+    status: obj.status === "ok" || obj.status === "error" ? obj.status : undefined,
+    minDurationMs: number(obj.minDurationMs),
+    security: typeof obj.security === "boolean" ? obj.security : undefined,
+    limit: number(obj.limit),
+  };
+}
+
+export class RecentTraceBuffer implements SpanProcessor {
+  /** Finished traces, oldest first */
+  private finished: RecentTrace[] = [];
+  private readonly pending = new Map<string, PendingTrace>();
+
+  constructor(private readonly config: RecentTracesConfig) {}
+
+  onStart(_span: Span, _parentContext: Context): void {}
+
+  onEnd(span: ReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+    const type = spanType(span);
+
+    let trace = this.pending.get(traceId);
+    if (!trace) {
+      // Only request traces are kept; other roots (commands, startup) are skipped
+      if (!type) return;
+      trace = { spans: [], spanCount: 0, turns: 0, toolCalls: 0, detections: new Set(), hasError: false };
+      this.pending.set(traceId, trace);
+      this.evictPending();
+    }
+
+    const attrs = span.attributes;
+    const detection = attrs["security.event.detection"];
+    if (typeof detection === "string") trace.detections.add(detection);
+    if (span.status.code === SpanStatusCode.ERROR) trace.hasError = true;
+    if (type) trace.spanCount += 1;
+    if (type === "tool") trace.toolCalls += 1;
+    if (type === "turn") {
+      trace.turns += 1;
+      if (typeof attrs["openclaw.agent.id"] === "string") trace.agentId ??= attrs["openclaw.agent.id"];
+      if (typeof attrs["gen_ai.usage.total_tokens"] === "number") {
+        trace.tokens = (trace.tokens ?? 0) + attrs["gen_ai.usage.total_tokens"];
+      }
+      if (typeof attrs["openclaw.llm.cost_usd"] === "number") {
+        trace.costUsd = (trace.costUsd ?? 0) + attrs["openclaw.llm.cost_usd"];
+      }
+    }
+    // The last slot is kept for the root, which ends last
+    if (type && trace.spans.length < this.config.maxSpansPerTrace - (type === "request" ? 0 : 1)) {
+      trace.spans.push(toRecentSpan(span, type));
+    }
+
+    if (type === "request") {
+      this.pending.delete(traceId);
+      this.finish(traceId, span, trace);
+    }
+  }
+
+  async forceFlush(): Promise<void> {}
+
+  async shutdown(): Promise<void> {
+    this.pending.clear();
+  }
+
+  /** Most recent traces first, filtered */
+  recent(filter: RecentTraceFilter = {}): RecentTraceSummary[] {
+    const limit = Math.min(Math.max(1, filter.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+    const results: RecentTraceSummary[] = [];
+    for (let i = this.finished.length - 1; i >= 0 && results.length < limit; i--) {
+      const trace = this.finished[i];
+      if (filter.sessionKey && trace.sessionKey !== filter.sessionKey) continue;
+      if (filter.agentId && trace.agentId !== filter.agentId) continue;
+      if (filter.status && trace.status !== filter.status) continue;
+      if (filter.minDurationMs !== undefined && trace.durationMs < filter.minDurationMs) continue;
+      if (filter.security !== undefined && trace.securityDetections.length > 0 !== filter.security) continue;
+      const { spans: _spans, ...summary } = trace;
+      results.push(summary);
+    }
+    return results;
+  }
+
+  /** One trace with its spans */
+  get(traceId: string): RecentTrace | undefined {
+    return this.finished.find((trace) => trace.traceId === traceId);
+  }
+
+  get size(): number {
+    return this.finished.length;
+  }
+
+  private finish(traceId: string, root: ReadableSpan, trace: PendingTrace): void {
+    const attrs = root.attributes;
+    const spans = trace.spans.sort((a, b) => a.startTime.localeCompare(b.startTime));
+    this.finished.push({
+      traceId,
+      sessionKey: typeof attrs["openclaw.session.key"] === "string" ? attrs["openclaw.session.key"] : undefined,
+      agentId: trace.agentId,
+      channel: typeof attrs["openclaw.message.channel"] === "string" ? attrs["openclaw.message.channel"] : undefined,
+      startTime: new Date(hrTimeToMs(root.startTime)).toISOString(),
+      durationMs: Math.round(hrTimeToMs(root.duration)),
+      status: trace.hasError ? "error" : "ok",
+      spanCount: trace.spanCount,
+      turns: trace.turns,
+      toolCalls: trace.toolCalls,
+      tokens: trace.tokens,
+      costUsd: trace.costUsd,
+      securityDetections: [...trace.detections],
+      spans,
+    });
+    if (this.finished.length > this.config.maxTraces) {
+      this.finished.splice(0, this.finished.length - this.config.maxTraces);
+    }
+  }
+
+  /** Bound traces whose root never ends (orphans are closed by hooks.ts) */
+  private evictPending(): void {
+    while (this.pending.size > this.config.maxTraces) {
+      const oldest = this.pending.keys().next().value;
+      if (oldest === undefined) break;
+      this.pending.delete(oldest);
+    }
+  }
+}
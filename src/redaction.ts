@@ -0,0 +1,167 @@
+/**
+ * Redaction pipeline for captured content — scrubs secrets and personal data
+ * from prompts, completions, tool input previews and security event details
+ * before they are attached to spans or log records.
+ *
+ * Built-in detectors:
+ *   - api_key:     well-known provider keys (Anthropic, OpenAI, AWS, GitHub, Slack, Google, Dynatrace) and Bearer tokens
+ *   - jwt:         JSON Web Tokens
+ *   - email:       email addresses
+ *   - phone:       phone numbers (separated digit groups, optional country code)
+ *   - credit_card: 13–19 digit card numbers passing the Luhn check
+ *
+ * Strategies:
+ *   - mask: replace the match with [REDACTED:<name>]
+ *   - hash: replace the match with a short HMAC-SHA256 digest so equal
+ *           values can still be correlated across spans. The key is
+ *           per install — `hashKey`, or one generated into `hashKeyFile` —
+ *           so a digest of a short value (phone number, card number)
+ *           cannot be reversed by hashing every candidate.
+ *   - drop: drop the whole attribute value when anything matches
+ */
+
+import { createHmac, randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { RedactionConfig, RedactionDetector, RedactionStrategy } from "./config.js";
+import { resolveSecretRefs } from "./secrets.js";
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  strategy?: RedactionStrategy;
+  /** Extra check on a match to cut false positives */
+  validate?: (match: string) => boolean;
+}
+
+/** Luhn checksum — filters random digit runs out of credit card matches */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/** Built-in detectors */
+const BUILTIN_DETECTORS: Record<RedactionDetector, Detector> = {
+  jwt: {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  api_key: {
+    name: "api_key",
+    pattern:
+      /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|dt0[a-z]\d{2}\.[A-Z0-9]{24}\.[A-Z0-9]{64})\b|(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{20,}=*/g,
+  },
+  credit_card: {
+    name: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn,
+  },
+  email: {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  phone: {
+    name: "phone",
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,4}(?!\w)/g,
+  },
+};
+
+/** Application order — most specific first, so a JWT isn't half-masked as something else */
+const BUILTIN_ORDER: RedactionDetector[] = ["jwt", "api_key", "credit_card", "email", "phone"];
+
+/**
+ * A redactor returns the scrubbed text, or undefined when the value must
+ * be dropped entirely.
+ */
+export type Redactor = (text: string) => string | undefined;
+
+/** Redactor that leaves content untouched (redaction disabled) */
+export const passthroughRedactor: Redactor = (text) => text;
+
+function replacement(name: string, match: string, strategy: RedactionStrategy, hashKey: Buffer): string {
+  if (strategy === "hash") {
+    const digest = createHmac("sha256", hashKey).update(match).digest("hex").slice(0, 12);
+    return `[${name}:hmac:${digest}]`;
+  }
+  return `[REDACTED:${name}]`;
+}
+
+/** Read the generated key, creating it (owner-only) on first use */
+function readOrCreateKeyFile(path: string): Buffer {
+  try {
+    writeFileSync(path, `${randomBytes(32).toString("hex")}\n`, { flag: "wx", mode: 0o600 });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      mkdirSync(dirname(path), { recursive: true });
+      return readOrCreateKeyFile(path);
+    }
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+  }
+  const key = readFileSync(path, "utf8").trim();
+  if (!key) throw new Error(`${path} is empty`);
+  return Buffer.from(key);
+}
+
+/**
+ * The HMAC key for the hash strategy — `hashKey` with its references
+ * resolved, else the key in `hashKeyFile`. Undefined when nothing is
+ * hashed. Throws when the key cannot be resolved, read or created.
+ */
+export function loadHashKey(config: RedactionConfig): Buffer | undefined {
+  const hashes = config.strategy === "hash" || config.patterns.some((p) => p.strategy === "hash");
+  if (!config.enabled || !hashes) return undefined;
+  if (config.hashKey) return Buffer.from(resolveSecretRefs(config.hashKey));
+  return readOrCreateKeyFile(config.hashKeyFile);
+}
+
+/**
+ * Build a redactor from config. User patterns run after the built-in
+ * detectors and may override the default strategy per pattern.
+ * Without a hash key (see loadHashKey), hashes use a random key and only
+ * correlate within this process.
+ */
+export function createRedactor(config: RedactionConfig, hashKey: Buffer = randomBytes(32)): Redactor {
+  if (!config.enabled) return passthroughRedactor;
+
+  const detectors: Detector[] = [
+    ...BUILTIN_ORDER.filter((id) => config.detectors.includes(id)).map((id) => BUILTIN_DETECTORS[id]),
+    ...config.patterns.map((p) => ({
+      name: p.name,
+      pattern: new RegExp(p.pattern, p.flags),
+      strategy: p.strategy,
+    })),
+  ];
+
+  return (text: string) => {
+    if (!text) return text;
+
+    let result = text;
+    for (const detector of detectors) {
+      const strategy = detector.strategy || config.strategy;
+      let matched = false;
+
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) return match;
+        matched = true;
+        return strategy === "drop" ? match : replacement(detector.name, match, strategy, hashKey);
+      });
+
+      if (matched && strategy === "drop") {
+        return undefined;
+      }
+    }
+    return result;
+  };
+}
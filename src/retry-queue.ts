@@ -0,0 +1,367 @@
+/**
+ * Disk-backed retry queue — keeps OTLP batches the collector could not take
+ * (down, restarting, unreachable) instead of dropping them, and replays them
+ * once it is back.
+ *
+ * The exporter wrappers below hand a failed batch to the queue as its
+ * OTLP/JSON request and report success to the SDK, so the batch processors
+ * never drop it. Each batch is one file in the queue directory:
+ *   <timestamp>-<seq>-<signal>.json
+ * written atomically (temp file + rename). File names sort oldest first, and
+ * the directory is re-read on startup, so a backlog survives gateway restarts.
+ *
+ * Replays POST the batches oldest first to the collector's OTLP/HTTP
+ * endpoints (with the signal's headers). A failed replay waits with exponential backoff; a successful
+ * live export retries immediately. Batches older than maxAgeMs are dropped,
+ * as are the oldest once the queue exceeds maxSizeBytes. Only the "http"
+ * protocol is supported.
+ */
+
+import { mkdirSync, readFileSync, readdirSync, renameSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import { JsonLogsSerializer, JsonMetricsSerializer, JsonTraceSerializer } from "@opentelemetry/otlp-transformer";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-node";
+import {
+  AggregationTemporality,
+  type InstrumentType,
+  type PushMetricExporter,
+  type ResourceMetrics,
+} from "@opentelemetry/sdk-metrics";
+import type { LogRecordExporter, ReadableLogRecord } from "@opentelemetry/sdk-logs";
+import type { RetryQueueConfig } from "./config.js";
+
+export type RetrySignal = "traces" | "metrics" | "logs";
+
+/** Per-request timeout for replays */
+const REPLAY_TIMEOUT_MS = 10_000;
+
+const FILE_PATTERN = /^\d{15}-\d{4}-(traces|metrics|logs)\.json$/;
+
+interface QueuedBatch {
+  file: string;
+  signal: RetrySignal;
+  bytes: number;
+  createdAt: number;
+}
+
+export interface RetryQueueStatus {
+  directory: string;
+  batches: number;
+  bytes: number;
+  /** Age of the oldest queued batch in ms */
+  oldestAgeMs?: number;
+  bySignal: Record<RetrySignal, number>;
+  /** Batches dropped for age or size */
+  dropped: number;
+  /** Batches replayed successfully since startup */
+  replayed: number;
+  lastError?: string;
+  /** When the next replay is scheduled (ISO timestamp) */
+  nextRetryAt?: string;
+}
+
+export interface RetryTargets {
+  /** OTLP/HTTP endpoint per signal, e.g. http://localhost:4318/v1/traces */
+  urls: Record<RetrySignal, string>;
+  headers: Record<RetrySignal, Record<string, string>>;
+}
+
+export class DiskRetryQueue {
+  private batches: QueuedBatch[] = [];
+  private sequence = 0;
+  private backoffMs: number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private nextRetryAt?: number;
+  private draining = false;
+  private stopped = false;
+  private dropped = 0;
+  private replayed = 0;
+  private lastError?: string;
+
+  constructor(
+    private readonly config: RetryQueueConfig,
+    private readonly targets: RetryTargets,
+    private readonly logger: any
+  ) {
+    this.backoffMs = config.initialBackoffMs;
+    mkdirSync(config.directory, { recursive: true });
+    this.load();
+    if (this.batches.length > 0) {
+      logger.info(`[otel] Retry queue: ${this.batches.length} batch(es) pending from a previous run`);
+      this.schedule(0);
+    }
+  }
+
+  /** Persist a batch the collector did not accept */
+  enqueue(signal: RetrySignal, payload: Uint8Array): void {
+    const now = Date.now();
+    const seq = String(this.sequence++ % 10_000).padStart(4, "0");
+    const file = `${String(now).padStart(15, "0")}-${seq}-${signal}.json`;
+    const path = join(this.config.directory, file);
+    writeFileSync(`${path}.tmp`, payload);
+    renameSync(`${path}.tmp`, path);
+
+    this.batches.push({ file, signal, bytes: payload.byteLength, createdAt: now });
+    this.enforceLimits(now);
+    if (!this.timer && !this.draining) this.schedule(this.backoffMs);
+  }
+
+  /** A live export got through — the collector is reachable again */
+  notifyDelivered(): void {
+    if (this.batches.length === 0 || this.draining || this.stopped) return;
+    this.backoffMs = this.config.initialBackoffMs;
+    this.schedule(0);
+  }
+
+  /**
+   * Replay queued batches oldest first, stopping at the first one the
+   * collector does not take (and backing off before the next attempt).
+   */
+  async drain(): Promise<void> {
+    if (this.draining || this.stopped) return;
+    this.draining = true;
+    this.clearTimer();
+    try {
+      this.enforceLimits(Date.now());
+      while (this.batches.length > 0 && !this.stopped) {
+        const batch = this.batches[0];
+        const outcome = await this.replay(batch);
+        if (outcome === "retry") {
+          this.schedule(this.backoffMs);
+          this.backoffMs = Math.min(this.backoffMs * 2, this.config.maxBackoffMs);
+          return;
+        }
+        this.remove(batch);
+        if (outcome === "sent") {
+          this.replayed += 1;
+        } else {
+          this.dropped += 1;
+        }
+      }
+      this.backoffMs = this.config.initialBackoffMs;
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  status(): RetryQueueStatus {
+    const bySignal = { traces: 0, metrics: 0, logs: 0 };
+    let bytes = 0;
+    for (const batch of this.batches) {
+      bySignal[batch.signal] += 1;
+      bytes += batch.bytes;
+    }
+    return {
+      directory: this.config.directory,
+      batches: this.batches.length,
+      bytes,
+      oldestAgeMs: this.batches.length ? Date.now() - this.batches[0].createdAt : undefined,
+      bySignal,
+      dropped: this.dropped,
+      replayed: this.replayed,
+      lastError: this.lastError,
+      nextRetryAt: this.nextRetryAt ? new Date(this.nextRetryAt).toISOString() : undefined,
+    };
+  }
+
+  /** Stop retrying; queued batches stay on disk for the next start */
+  stop(): void {
+    this.stopped = true;
+    this.clearTimer();
+  }
+
+  private async replay(batch: QueuedBatch): Promise<"sent" | "rejected" | "retry"> {
+    let body: string;
+    try {
+      body = readFileSync(join(this.config.directory, batch.file), "utf8");
+    } catch {
+      // Removed from under us — nothing left to send
+      return "rejected";
+    }
+
+    try {
+      const response = await fetch(this.targets.urls[batch.signal], {
+        method: "POST",
+        headers: { ...this.targets.headers[batch.signal], "Content-Type": "application/json" },
+        body,
+        signal: AbortSignal.timeout(REPLAY_TIMEOUT_MS),
+      });
+      if (response.ok) return "sent";
+
+      this.lastError = `HTTP ${response.status} replaying ${batch.signal}`;
+      // The collector refuses this batch for good — retrying will not help
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        this.logger.warn?.(`[otel] Retry queue: dropping ${batch.file} (${this.lastError})`);
+        return "rejected";
+      }
+      return "retry";
+    } catch (err) {
+      this.lastError = err instanceof Error ? err.message : String(err);
+      return "retry";
+    }
+  }
+
+  /** Drop batches past maxAgeMs, then the oldest while over maxSizeBytes */
+  private enforceLimits(now: number): void {
+    let bytes = this.batches.reduce((sum, batch) => sum + batch.bytes, 0);
+    const excess: QueuedBatch[] = [];
+    for (const batch of this.batches) {
+      if (now - batch.createdAt > this.config.maxAgeMs || bytes > this.config.maxSizeBytes) {
+        excess.push(batch);
+        bytes -= batch.bytes;
+      }
+    }
+    if (excess.length === 0) return;
+
+    for (const batch of excess) this.remove(batch);
+    this.dropped += excess.length;
+    this.logger.warn?.(`[otel] Retry queue: dropped ${excess.length} batch(es) over the age/size limit`);
+  }
+
+  private remove(batch: QueuedBatch): void {
+    this.batches = this.batches.filter((b) => b !== batch);
+    try {
+      unlinkSync(join(this.config.directory, batch.file));
+    } catch {
+      // Already gone — nothing to do
+    }
+  }
+
+  /** Pick up batches left by a previous run; discard interrupted writes */
+  private load(): void {
+    for (const file of readdirSync(this.config.directory).sort()) {
+      const path = join(this.config.directory, file);
+      if (file.endsWith(".json.tmp")) {
+        try {
+          unlinkSync(path);
+        } catch {
+          // Already gone — nothing to do
+        }
+        continue;
+      }
+      const match = FILE_PATTERN.exec(file);
+      if (!match) continue;
+      try {
+        const bytes = statSync(path).size;
+        this.batches.push({ file, signal: match[1] as RetrySignal, bytes, createdAt: Number(file.slice(0, 15)) });
+      } catch {
+        // Removed while listing — skip it
+      }
+    }
+    this.enforceLimits(Date.now());
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.stopped) return;
+    this.clearTimer();
+    this.nextRetryAt = Date.now() + delayMs;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.nextRetryAt = undefined;
+      void this.drain();
+    }, delayMs);
+    // A pending retry must not keep the process alive
+    this.timer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.nextRetryAt = undefined;
+  }
+}
+
+/**
+ * Hand a failed export to the queue and report success, so the SDK does not
+ * drop the batch; a successful one tells the queue the collector is back.
+ */
+function exportWithRetry(
+  queue: DiskRetryQueue,
+  signal: RetrySignal,
+  serialize: () => Uint8Array | undefined,
+  resultCallback: (result: ExportResult) => void
+): (result: ExportResult) => void {
+  return (result) => {
+    if (result.code === ExportResultCode.SUCCESS) {
+      queue.notifyDelivered();
+      resultCallback(result);
+      return;
+    }
+    try {
+      const payload = serialize();
+      if (payload) queue.enqueue(signal, payload);
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch {
+      // Could not persist either — let the SDK see the original failure
+      resultCallback(result);
+    }
+  };
+}
+
+export class RetryingSpanExporter implements SpanExporter {
+  constructor(
+    private readonly inner: SpanExporter,
+    private readonly queue: DiskRetryQueue
+  ) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.inner.export(
+      spans,
+      exportWithRetry(this.queue, "traces", () => JsonTraceSerializer.serializeRequest(spans), resultCallback)
+    );
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.inner.forceFlush?.();
+  }
+}
+
+export class RetryingMetricExporter implements PushMetricExporter {
+  constructor(
+    private readonly inner: PushMetricExporter,
+    private readonly queue: DiskRetryQueue
+  ) {}
+
+  export(metrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
+    this.inner.export(
+      metrics,
+      exportWithRetry(this.queue, "metrics", () => JsonMetricsSerializer.serializeRequest(metrics), resultCallback)
+    );
+  }
+
+  // Keep the wrapped exporter's temporality preference (optional — the SDK default is cumulative)
+  selectAggregationTemporality(instrumentType: InstrumentType): AggregationTemporality {
+    return this.inner.selectAggregationTemporality?.(instrumentType) ?? AggregationTemporality.CUMULATIVE;
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+
+  forceFlush(): Promise<void> {
+    return this.inner.forceFlush();
+  }
+}
+
+export class RetryingLogExporter implements LogRecordExporter {
+  constructor(
+    private readonly inner: LogRecordExporter,
+    private readonly queue: DiskRetryQueue
+  ) {}
+
+  export(logs: ReadableLogRecord[], resultCallback: (result: ExportResult) => void): void {
+    this.inner.export(
+      logs,
+      exportWithRetry(this.queue, "logs", () => JsonLogsSerializer.serializeRequest(logs), resultCallback)
+    );
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+}
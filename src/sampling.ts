@@ -0,0 +1,203 @@
+/**
+ * Trace sampling — keeps trace volume (and backend cost) under control on
+ * busy gateways.
+ *
+ * Modes:
+ *   - always_on: export every trace (default)
+ *   - ratio:     head sampling — a fraction of openclaw.request roots is
+ *                kept, and every child span follows its root's decision.
+ *                A caller's traceparent marked sampled keeps the request;
+ *                one marked not sampled does not drop it — the ratio decides.
+ *   - tail:      every span is recorded but held in memory until the trace's
+ *                root span ends (agent_end). Traces that errored, tripped a
+ *                security detection, or crossed the cost/latency thresholds
+ *                are always exported; the rest of the openclaw.request
+ *                traces are kept at `ratio`.
+ *
+ * In both modes other roots (gateway startup, commands, message audit
+ * spans) are rare and always kept.
+ */
+
+import { SpanStatusCode, type Context } from "@opentelemetry/api";
+import {
+  AlwaysOnSampler,
+  ParentBasedSampler,
+  SamplingDecision,
+  TraceIdRatioBasedSampler,
+  type ReadableSpan,
+  type Sampler,
+  type SamplingResult,
+  type Span,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import type { SamplingConfig } from "./config.js";
+
+/** Root span name that head sampling applies to */
+const REQUEST_SPAN_NAME = "openclaw.request";
+
+/** Root sampler that applies the ratio to openclaw.request roots only */
+class RequestRatioSampler implements Sampler {
+  private readonly ratioSampler: TraceIdRatioBasedSampler;
+
+  constructor(private readonly ratio: number) {
+    this.ratioSampler = new TraceIdRatioBasedSampler(ratio);
+  }
+
+  shouldSample(ctx: Context, traceId: string, spanName: string): SamplingResult {
+    if (spanName === REQUEST_SPAN_NAME) {
+      return this.ratioSampler.shouldSample(ctx, traceId);
+    }
+    return { decision: SamplingDecision.RECORD_AND_SAMPLED };
+  }
+
+  toString(): string {
+    return `RequestRatioSampler{ratio=${this.ratio}}`;
+  }
+}
+
+/**
+ * Build the head sampler for the tracer provider.
+ * Tail mode records everything — the decision is made by TailSamplingSpanProcessor.
+ */
+export function createSampler(config: SamplingConfig): Sampler {
+  if (config.mode === "ratio") {
+    const root = new RequestRatioSampler(config.ratio);
+    // An unsampled inbound traceparent must not switch request sampling off
+    return new ParentBasedSampler({ root, remoteParentNotSampled: root });
+  }
+  return new AlwaysOnSampler();
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// TAIL SAMPLING
+// ═══════════════════════════════════════════════════════════════════
+
+interface BufferedTrace {
+  spans: ReadableSpan[];
+  /** Set as soon as any span in the trace is "interesting" */
+  keep: boolean;
+}
+
+/** A span with no parent in this process — the root of its trace here */
+function isLocalRoot(span: { parentSpanContext?: { isRemote?: boolean } }): boolean {
+  return !span.parentSpanContext || span.parentSpanContext.isRemote === true;
+}
+
+function hrTimeToMs(time: [number, number]): number {
+  return time[0] * 1000 + time[1] / 1e6;
+}
+
+/**
+ * Span processor that buffers spans per trace and forwards them to the
+ * wrapped (exporting) processor only once the trace is decided to be kept.
+ */
+export class TailSamplingSpanProcessor implements SpanProcessor {
+  private readonly buffer = new Map<string, BufferedTrace>();
+  /** Decisions for traces whose root already ended — catches late child spans */
+  private readonly decided = new Map<string, boolean>();
+
+  constructor(
+    private readonly next: SpanProcessor,
+    private readonly config: SamplingConfig
+  ) {}
+
+  onStart(span: Span, parentContext: Context): void {
+    // The ratio only applies to request traces; any other root is kept
+    if (isLocalRoot(span) && span.name !== REQUEST_SPAN_NAME) {
+      this.buffered(span.spanContext().traceId).keep = true;
+    }
+    this.next.onStart(span, parentContext);
+  }
+
+  onEnd(span: ReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+
+    const decision = this.decided.get(traceId);
+    if (decision !== undefined) {
+      if (decision) this.next.onEnd(span);
+      return;
+    }
+
+    const trace = this.buffered(traceId);
+    trace.spans.push(span);
+    if (this.isInteresting(span)) {
+      trace.keep = true;
+    }
+
+    // A local root span ending means the trace is complete (agent_end)
+    if (isLocalRoot(span)) {
+      this.decide(traceId, trace);
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.next.forceFlush();
+  }
+
+  async shutdown(): Promise<void> {
+    // Apply the normal decision to whatever is still buffered
+    for (const [traceId, trace] of this.buffer) {
+      this.decide(traceId, trace);
+    }
+    await this.next.shutdown();
+  }
+
+  private buffered(traceId: string): BufferedTrace {
+    let trace = this.buffer.get(traceId);
+    if (!trace) {
+      trace = { spans: [], keep: false };
+      this.buffer.set(traceId, trace);
+      this.evictOverflow();
+    }
+    return trace;
+  }
+
+  private isInteresting(span: ReadableSpan): boolean {
+    const { config } = this;
+    const attrs = span.attributes;
+
+    if (config.keepErrors && span.status.code === SpanStatusCode.ERROR) {
+      return true;
+    }
+    if (config.keepSecurityEvents && attrs["security.event.detected"] === true) {
+      return true;
+    }
+    if (config.costThresholdUsd !== undefined) {
+      const cost = attrs["openclaw.llm.cost_usd"];
+      if (typeof cost === "number" && cost >= config.costThresholdUsd) return true;
+    }
+    if (config.latencyThresholdMs !== undefined && span.name === REQUEST_SPAN_NAME) {
+      if (hrTimeToMs(span.duration) >= config.latencyThresholdMs) return true;
+    }
+    return false;
+  }
+
+  private decide(traceId: string, trace: BufferedTrace): void {
+    const keep = trace.keep || Math.random() < this.config.ratio;
+    this.buffer.delete(traceId);
+    this.rememberDecision(traceId, keep);
+
+    if (keep) {
+      for (const span of trace.spans) {
+        this.next.onEnd(span);
+      }
+    }
+  }
+
+  private rememberDecision(traceId: string, keep: boolean): void {
+    this.decided.set(traceId, keep);
+    if (this.decided.size > this.config.maxBufferedTraces) {
+      const oldest = this.decided.keys().next().value;
+      if (oldest !== undefined) this.decided.delete(oldest);
+    }
+  }
+
+  /** Bound memory: decide the oldest buffered trace early when the buffer is full */
+  private evictOverflow(): void {
+    if (this.buffer.size <= this.config.maxBufferedTraces) return;
+    const oldest = this.buffer.entries().next().value;
+    if (oldest) {
+      this.decide(oldest[0], oldest[1]);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Secret references in exporter headers — `${env:NAME}` and `${file:/path}`
+ * in a header value are replaced by the environment variable or the file's
+ * contents, so tokens need not sit in openclaw.json (itself a file the
+ * sensitive-file detection flags):
+ *
+ *   "headers": { "Authorization": "Api-Token ${file:/run/secrets/dt-token}" }
+ *
+ * References are resolved when telemetry starts and again every
+ * secrets.refreshIntervalMs, so a rotated token file is picked up without a
+ * restart. Resolved header objects are updated in place — the OTLP/HTTP
+ * exporters and the retry queue read them on every request. A header whose
+ * reference cannot be resolved is left out until it can be; after a failed
+ * rotation it keeps its previous value.
+ *
+ * Resolved values are never shown: config is reported with its references
+ * (literal values masked), and every value a reference ever resolved to is
+ * masked in plugin log lines and export errors.
+ */
+
+import { readFileSync } from "node:fs";
+import type { SecretsConfig } from "./config.js";
+
+const SECRET_REF = /\$\{(env|file):([^}]+)\}/g;
+
+const MASK = "****";
+
+/** Shorter values are left alone in text — they would match all over */
+const MIN_MASK_LENGTH = 4;
+
+export interface HeaderSecretStatus {
+  /** Header set the reference belongs to (the signal) */
+  signal: string;
+  header: string;
+  /** The configured value, references unresolved */
+  value: string;
+  resolved: boolean;
+  error?: string;
+}
+
+export interface HeaderSecretsStatus {
+  references: HeaderSecretStatus[];
+  /** Last time a resolved value changed (ISO timestamp) */
+  lastRotationAt?: string;
+}
+
+interface TrackedHeaders {
+  signal: string;
+  raw: Record<string, string>;
+  live: Record<string, string>;
+}
+
+export function hasSecretRef(value: string): boolean {
+  return new RegExp(SECRET_REF.source).test(value);
+}
+
+function resolveRef(kind: string, name: string): string {
+  if (kind === "env") {
+    const value = process.env[name];
+    if (!value) throw new Error(`environment variable ${name} is not set`);
+    return value;
+  }
+  let value: string;
+  try {
+    value = readFileSync(name, "utf8").trim();
+  } catch (err) {
+    throw new Error(`cannot read ${name} (${(err as NodeJS.ErrnoException).code ?? (err as Error).message})`);
+  }
+  if (!value) throw new Error(`${name} is empty`);
+  return value;
+}
+
+/** Replace every reference in a header value; `secrets` collects what they resolved to */
+export function resolveSecretRefs(value: string, secrets?: Set<string>): string {
+  return value.replace(SECRET_REF, (_ref, kind: string, name: string) => {
+    const resolved = resolveRef(kind, name.trim());
+    secrets?.add(resolved);
+    return resolved;
+  });
+}
+
+/** Resolve a header set once; throws on the first reference that fails */
+export function resolveHeaders(headers: Record<string, string>, secrets?: Set<string>): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    resolved[name] = resolveSecretRefs(value, secrets);
+  }
+  return resolved;
+}
+
+/** Headers for display: references as configured, literal values masked */
+export function maskHeaders(headers: Record<string, string>): Record<string, string> {
+  const masked: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    masked[name] = hasSecretRef(value) ? value : MASK;
+  }
+  return masked;
+}
+
+export function maskSecrets(text: string, secrets: Iterable<string>): string {
+  let masked = text;
+  for (const secret of secrets) {
+    if (secret.length >= MIN_MASK_LENGTH) masked = masked.split(secret).join(MASK);
+  }
+  return masked;
+}
+
+export class HeaderSecrets {
+  private readonly tracked: TrackedHeaders[] = [];
+  /** Every value a reference resolved to, including rotated-out ones */
+  private readonly secrets = new Set<string>();
+  /** Resolution errors by "<header> (<signal>)" */
+  private readonly errors = new Map<string, string>();
+  private lastRotationAt?: number;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly config: SecretsConfig,
+    private readonly logger: any
+  ) {}
+
+  /** Resolve a signal's headers; the returned object is kept current */
+  track(signal: string, raw: Record<string, string>): Record<string, string> {
+    const entry: TrackedHeaders = { signal, raw, live: {} };
+    this.tracked.push(entry);
+    this.resolve(entry);
+
+    if (!this.timer && this.config.refreshIntervalMs > 0 && Object.values(raw).some(hasSecretRef)) {
+      this.timer = setInterval(() => this.refresh(), this.config.refreshIntervalMs);
+      // Rotation checks must not keep the process alive
+      this.timer.unref?.();
+    }
+    return entry.live;
+  }
+
+  /** Re-resolve every reference and apply changed values */
+  refresh(now = Date.now()): void {
+    const rotated = this.tracked.flatMap((entry) => this.resolve(entry));
+    if (rotated.length > 0) {
+      this.lastRotationAt = now;
+      this.logger.info?.(`[otel] Rotated header secret(s): ${rotated.join(", ")}`);
+    }
+  }
+
+  mask(text: string): string {
+    return maskSecrets(text, this.secrets);
+  }
+
+  /** Wrap a plugin logger so resolved secrets never reach a log line */
+  wrapLogger(base: any): any {
+    const wrap = (level: "debug" | "info" | "warn" | "error") =>
+      base?.[level] ? (message: string) => base[level](this.mask(String(message))) : undefined;
+    return { ...base, debug: wrap("debug"), info: wrap("info"), warn: wrap("warn"), error: wrap("error") };
+  }
+
+  status(): HeaderSecretsStatus {
+    const references: HeaderSecretStatus[] = [];
+    for (const { signal, raw, live } of this.tracked) {
+      for (const [header, value] of Object.entries(raw)) {
+        if (!hasSecretRef(value)) continue;
+        const error = this.errors.get(`${header} (${signal})`);
+        references.push({ signal, header, value, resolved: live[header] !== undefined, error });
+      }
+    }
+    return {
+      references,
+      lastRotationAt: this.lastRotationAt ? new Date(this.lastRotationAt).toISOString() : undefined,
+    };
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Resolve one header set in place; returns the headers whose value changed */
+  private resolve(entry: TrackedHeaders): string[] {
+    const changed: string[] = [];
+    for (const [name, value] of Object.entries(entry.raw)) {
+      if (!hasSecretRef(value)) {
+        entry.live[name] = value;
+        continue;
+      }
+
+      const key = `${name} (${entry.signal})`;
+      const previous = entry.live[name];
+      try {
+        const resolved = resolveSecretRefs(value, this.secrets);
+        if (previous !== undefined && previous !== resolved) changed.push(key);
+        entry.live[name] = resolved;
+        if (this.errors.delete(key)) this.logger.info?.(`[otel] Header ${key} resolved`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (this.errors.get(key) !== message) {
+          this.logger.warn?.(
+            previous === undefined
+              ? `[otel] Header ${key} not sent: ${message}`
+              : `[otel] Header ${key} keeps its previous value: ${message}`
+          );
+        }
+        this.errors.set(key, message);
+      }
+    }
+    return changed;
+  }
+}
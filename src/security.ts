@@ -3,100 +3,171 @@
  * 
  * Implements real-time threat detection patterns:
  * - Detection 1: Sensitive file access (.env, credentials, etc.)
- * - Detection 2: Prompt injection patterns
+ * - Detection 2: Prompt injection patterns (inbound messages and tool results)
  * - Detection 3: Dangerous command execution
  * - Detection 4: Token spike anomaly (via metrics, alert in Dynatrace)
+ * - Detection 5: Secret exposure (tool results and assistant replies)
  */
 
 import { SpanStatusCode, type Span } from "@opentelemetry/api";
 import type { Counter } from "@opentelemetry/api";
+import type { SecurityConfig, SecurityRuleConfig } from "./config.js";
+import { passthroughRedactor, type Redactor } from "./redaction.js";
 
 // ═══════════════════════════════════════════════════════════════════
 // DETECTION PATTERNS
 // ═══════════════════════════════════════════════════════════════════
 
 /** Detection 1: Sensitive file patterns */
-const SENSITIVE_FILE_PATTERNS = [
-  /\.env$/i,
-  /\.env\./i,
-  /openclaw\.json$/i,
-  /\.ssh\//i,
-  /id_rsa/i,
-  /id_ed25519/i,
-  /credentials/i,
-  /\.aws\/credentials/i,
-  /\.kube\/config/i,
-  /\.docker\/config\.json/i,
-  /\.netrc/i,
-  /\.pgpass/i,
-  /\.my\.cnf/i,
-  /password/i,
-  /secret/i,
-  /token/i,
-  /api[_-]?key/i,
-  /private[_-]?key/i,
+const SENSITIVE_FILE_RULES: SecurityRule[] = [
+  { id: "file.env", pattern: /\.env$/i, severity: "critical", desc: ".env file" },
+  { id: "file.env_variant", pattern: /\.env\./i, severity: "critical", desc: ".env.* file" },
+  { id: "file.openclaw_config", pattern: /openclaw\.json$/i, severity: "critical", desc: "OpenClaw configuration" },
+  { id: "file.ssh_dir", pattern: /\.ssh\//i, severity: "critical", desc: "SSH directory" },
+  { id: "file.id_rsa", pattern: /id_rsa/i, severity: "critical", desc: "RSA private key" },
+  { id: "file.id_ed25519", pattern: /id_ed25519/i, severity: "critical", desc: "Ed25519 private key" },
+  { id: "file.credentials", pattern: /credentials/i, severity: "critical", desc: "credentials file" },
+  { id: "file.aws_credentials", pattern: /\.aws\/credentials/i, severity: "critical", desc: "AWS credentials" },
+  { id: "file.kube_config", pattern: /\.kube\/config/i, severity: "critical", desc: "Kubernetes config" },
+  { id: "file.docker_config", pattern: /\.docker\/config\.json/i, severity: "critical", desc: "Docker registry auth" },
+  { id: "file.netrc", pattern: /\.netrc/i, severity: "critical", desc: ".netrc credentials" },
+  { id: "file.pgpass", pattern: /\.pgpass/i, severity: "critical", desc: "PostgreSQL password file" },
+  { id: "file.mysql_config", pattern: /\.my\.cnf/i, severity: "critical", desc: "MySQL config" },
+  { id: "file.password", pattern: /password/i, severity: "critical", desc: "password in path" },
+  { id: "file.secret", pattern: /secret/i, severity: "critical", desc: "secret in path" },
+  { id: "file.token", pattern: /token/i, severity: "critical", desc: "token in path" },
+  { id: "file.api_key", pattern: /api[_-]?key/i, severity: "critical", desc: "API key in path" },
+  { id: "file.private_key", pattern: /private[_-]?key/i, severity: "critical", desc: "private key in path" },
 ];
 
 /** Detection 2: Prompt injection patterns */
-const PROMPT_INJECTION_PATTERNS = [
-  /ignore\s+(all\s+)?previous/i,
-  /ignore\s+(your\s+)?instructions/i,
-  /disregard\s+(all\s+)?prior/i,
-  /forget\s+everything/i,
-  /new\s+instructions/i,
-  /\[SYSTEM\]/i,
-  /\[ADMIN\]/i,
-  /\[OVERRIDE\]/i,
-  /SYSTEM:/i,
-  /<<<\s*SYSTEM/i,
-  /you\s+are\s+now\s+/i,
-  /pretend\s+you\s+are/i,
-  /act\s+as\s+if/i,
-  /roleplay\s+as/i,
-  /bypass\s+(your\s+)?(safety|security|restrictions)/i,
-  /jailbreak/i,
-  /DAN\s+mode/i,
+const PROMPT_INJECTION_RULES: SecurityRule[] = [
+  { id: "injection.ignore_previous", pattern: /ignore\s+(all\s+)?previous/i, severity: "high", desc: "ignore previous" },
+  { id: "injection.ignore_instructions", pattern: /ignore\s+(your\s+)?instructions/i, severity: "high", desc: "ignore instructions" },
+  { id: "injection.disregard_prior", pattern: /disregard\s+(all\s+)?prior/i, severity: "high", desc: "disregard prior" },
+  { id: "injection.forget_everything", pattern: /forget\s+everything/i, severity: "high", desc: "forget everything" },
+  { id: "injection.new_instructions", pattern: /new\s+instructions/i, severity: "high", desc: "new instructions" },
+  { id: "injection.system_tag", pattern: /\[SYSTEM\]/i, severity: "high", desc: "fake [SYSTEM] tag" },
+  { id: "injection.admin_tag", pattern: /\[ADMIN\]/i, severity: "high", desc: "fake [ADMIN] tag" },
+  { id: "injection.override_tag", pattern: /\[OVERRIDE\]/i, severity: "high", desc: "fake [OVERRIDE] tag" },
+  { id: "injection.system_prefix", pattern: /SYSTEM:/i, severity: "high", desc: "fake SYSTEM: prefix" },
+  { id: "injection.system_fence", pattern: /<<<\s*SYSTEM/i, severity: "high", desc: "fake <<<SYSTEM fence" },
+  { id: "injection.you_are_now", pattern: /you\s+are\s+now\s+/i, severity: "high", desc: "role override" },
+  { id: "injection.pretend", pattern: /pretend\s+you\s+are/i, severity: "high", desc: "pretend you are" },
+  { id: "injection.act_as_if", pattern: /act\s+as\s+if/i, severity: "high", desc: "act as if" },
+  { id: "injection.roleplay", pattern: /roleplay\s+as/i, severity: "high", desc: "roleplay as" },
+  { id: "injection.bypass_safety", pattern: /bypass\s+(your\s+)?(safety|security|restrictions)/i, severity: "high", desc: "bypass safety" },
+  { id: "injection.jailbreak", pattern: /jailbreak/i, severity: "high", desc: "jailbreak" },
+  { id: "injection.dan_mode", pattern: /DAN\s+mode/i, severity: "high", desc: "DAN mode" },
 ];
 
 /** Detection 3: Dangerous command patterns */
-const DANGEROUS_COMMAND_PATTERNS: Array<{ pattern: RegExp; severity: Severity; desc: string }> = [
+const DANGEROUS_COMMAND_RULES: SecurityRule[] = [
   // Data exfiltration
-  { pattern: /\bcurl\b.*(-d|--data|-F|--form)/i, severity: "critical", desc: "curl with data upload" },
-  { pattern: /\bcurl\b.*\|\s*(bash|sh|zsh)/i, severity: "critical", desc: "curl piped to shell" },
-  { pattern: /\bwget\b.*-O\s*-\s*\|/i, severity: "critical", desc: "wget piped to shell" },
-  { pattern: /\bnc\b.*-e/i, severity: "critical", desc: "netcat reverse shell" },
-  { pattern: /\bnetcat\b/i, severity: "high", desc: "netcat usage" },
-  
+  { id: "command.curl_upload", pattern: /\bcurl\b.*(-d|--data|-F|--form)/i, severity: "critical", desc: "curl with data upload" },
+  { id: "command.curl_pipe_shell", pattern: /\bcurl\b.*\|\s*(bash|sh|zsh)/i, severity: "critical", desc: "curl piped to shell" },
+  { id: "command.wget_pipe_shell", pattern: /\bwget\b.*-O\s*-\s*\|/i, severity: "critical", desc: "wget piped to shell" },
+  { id: "command.netcat_exec", pattern: /\bnc\b.*-e/i, severity: "critical", desc: "netcat reverse shell" },
+  { id: "command.netcat", pattern: /\bnetcat\b/i, severity: "high", desc: "netcat usage" },
+
   // Destructive commands
-  { pattern: /\brm\s+(-rf?|--recursive).*\//i, severity: "critical", desc: "recursive delete" },
-  { pattern: /\brm\s+-rf?\s+\//i, severity: "critical", desc: "rm on root path" },
-  { pattern: />\s*\/dev\/sd/i, severity: "critical", desc: "overwrite disk device" },
-  { pattern: /\bmkfs\b/i, severity: "critical", desc: "filesystem format" },
-  { pattern: /\bdd\b.*of=\/dev/i, severity: "critical", desc: "dd to device" },
-  
+  { id: "command.rm_recursive", pattern: /\brm\s+(-rf?|--recursive).*\//i, severity: "critical", desc: "recursive delete" },
+  { id: "command.rm_root", pattern: /\brm\s+-rf?\s+\//i, severity: "critical", desc: "rm on root path" },
+  { id: "command.disk_overwrite", pattern: />\s*\/dev\/sd/i, severity: "critical", desc: "overwrite disk device" },
+  { id: "command.mkfs", pattern: /\bmkfs\b/i, severity: "critical", desc: "filesystem format" },
+  { id: "command.dd_device", pattern: /\bdd\b.*of=\/dev/i, severity: "critical", desc: "dd to device" },
+
   // Permission/privilege
-  { pattern: /\bchmod\s+777\b/i, severity: "high", desc: "chmod 777 (world-writable)" },
-  { pattern: /\bchmod\s+\+s\b/i, severity: "critical", desc: "setuid bit" },
-  { pattern: /\bsudo\b/i, severity: "warning", desc: "sudo usage" },
-  { pattern: /\bsu\s+-\s*$/i, severity: "warning", desc: "switch to root" },
-  
+  { id: "command.chmod_777", pattern: /\bchmod\s+777\b/i, severity: "high", desc: "chmod 777 (world-writable)" },
+  { id: "command.setuid", pattern: /\bchmod\s+\+s\b/i, severity: "critical", desc: "setuid bit" },
+  { id: "command.sudo", pattern: /\bsudo\b/i, severity: "warning", desc: "sudo usage" },
+  { id: "command.su_root", pattern: /\bsu\s+-\s*$/i, severity: "warning", desc: "switch to root" },
+
   // Crypto/mining
-  { pattern: /\bxmrig\b/i, severity: "critical", desc: "crypto miner" },
-  { pattern: /stratum\+tcp/i, severity: "critical", desc: "mining pool connection" },
-  
+  { id: "command.xmrig", pattern: /\bxmrig\b/i, severity: "critical", desc: "crypto miner" },
+  { id: "command.mining_pool", pattern: /stratum\+tcp/i, severity: "critical", desc: "mining pool connection" },
+
   // Persistence
-  { pattern: /crontab\s+-e/i, severity: "high", desc: "crontab edit" },
-  { pattern: /\/etc\/cron/i, severity: "high", desc: "cron directory access" },
-  { pattern: /systemctl\s+(enable|start)/i, severity: "warning", desc: "systemd service modification" },
-  { pattern: /\.bashrc|\.zshrc|\.profile/i, severity: "warning", desc: "shell profile modification" },
+  { id: "command.crontab_edit", pattern: /crontab\s+-e/i, severity: "high", desc: "crontab edit" },
+  { id: "command.cron_dir", pattern: /\/etc\/cron/i, severity: "high", desc: "cron directory access" },
+  { id: "command.systemctl", pattern: /systemctl\s+(enable|start)/i, severity: "warning", desc: "systemd service modification" },
+  { id: "command.shell_profile", pattern: /\.bashrc|\.zshrc|\.profile/i, severity: "warning", desc: "shell profile modification" },
 ];
 
+/** Minimum Shannon entropy (bits/char) for a keyword-assigned value to look like a secret */
+const SECRET_ENTROPY_THRESHOLD = 3.5;
+
+/** Shannon entropy of a string in bits per character */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/** Detection 5: Secret material (well-known token formats + entropy heuristic) */
+const SECRET_RULES: SecurityRule[] = [
+  { id: "secret.private_key", pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/, severity: "critical", desc: "private key" },
+  { id: "secret.aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/, severity: "critical", desc: "AWS access key" },
+  { id: "secret.aws_secret_key", pattern: /aws_secret_access_key\s*[:=]\s*["']?[A-Za-z0-9/+]{40}/i, severity: "critical", desc: "AWS secret key" },
+  { id: "secret.github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/, severity: "critical", desc: "GitHub token" },
+  { id: "secret.gitlab_token", pattern: /\bglpat-[A-Za-z0-9_-]{20,}/, severity: "critical", desc: "GitLab token" },
+  { id: "secret.slack_token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/, severity: "critical", desc: "Slack token" },
+  { id: "secret.anthropic_key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/, severity: "critical", desc: "Anthropic API key" },
+  { id: "secret.openai_key", pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{20,}/, severity: "critical", desc: "OpenAI API key" },
+  { id: "secret.google_api_key", pattern: /\bAIza[0-9A-Za-z_-]{35}/, severity: "critical", desc: "Google API key" },
+  { id: "secret.stripe_key", pattern: /\b[rs]k_live_[0-9A-Za-z]{24,}/, severity: "critical", desc: "Stripe live key" },
+  { id: "secret.dynatrace_token", pattern: /\bdt0[a-z]\d{2}\.[A-Z0-9]{24}\.[A-Z0-9]{64}/, severity: "critical", desc: "Dynatrace token" },
+  { id: "secret.jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/, severity: "high", desc: "JSON Web Token" },
+  {
+    id: "secret.high_entropy",
+    pattern: /(?:secret|token|passw(?:or)?d|api[_-]?key|access[_-]?key|private[_-]?key|credential)s?["']?\s*[:=]\s*["']?([A-Za-z0-9+/_.=-]{20,})/gi,
+    severity: "high",
+    desc: "high-entropy credential",
+    validate: (match) => shannonEntropy(match[1] || "") >= SECRET_ENTROPY_THRESHOLD,
+  },
+];
+
+/** IDs of all built-in rules — config may disable or re-rate them */
+export const BUILTIN_RULE_IDS: ReadonlySet<string> = new Set(
+  [...SENSITIVE_FILE_RULES, ...PROMPT_INJECTION_RULES, ...DANGEROUS_COMMAND_RULES, ...SECRET_RULES].map((r) => r.id)
+);
+
 // ═══════════════════════════════════════════════════════════════════
 // DETECTION TYPES
 // ═══════════════════════════════════════════════════════════════════
 
 export type Severity = "critical" | "high" | "warning" | "info";
 
+export interface SecurityRule {
+  /** Stable identifier, referenced by config to disable or re-rate the rule */
+  id: string;
+  pattern: RegExp;
+  severity: Severity;
+  desc: string;
+  /** Extra check on each match to cut false positives (pattern must be global) */
+  validate?: (match: RegExpMatchArray) => boolean;
+}
+
+/** Active detection rules and allowlists, built from config by buildRuleSet() */
+export interface SecurityRuleSet {
+  sensitiveFiles: SecurityRule[];
+  promptInjection: SecurityRule[];
+  dangerousCommands: SecurityRule[];
+  secrets: SecurityRule[];
+  allowlist: {
+    paths: RegExp[];
+    commands: RegExp[];
+    /** Exact IDs, or prefixes ending in "*" */
+    agents: string[];
+    sessions: string[];
+  };
+}
+
 export interface SecurityEvent {
   detection: string;
   severity: Severity;
@@ -112,6 +183,84 @@ export interface SecurityCounters {
   sensitiveFileAccess: Counter;
   promptInjection: Counter;
   dangerousCommand: Counter;
+  secretExposure: Counter;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// RULE SET
+// ═══════════════════════════════════════════════════════════════════
+
+/** Built-in rules only, nothing allowlisted */
+export const DEFAULT_RULE_SET: SecurityRuleSet = {
+  sensitiveFiles: SENSITIVE_FILE_RULES,
+  promptInjection: PROMPT_INJECTION_RULES,
+  dangerousCommands: DANGEROUS_COMMAND_RULES,
+  secrets: SECRET_RULES,
+  allowlist: { paths: [], commands: [], agents: [], sessions: [] },
+};
+
+function compileRules(
+  builtins: SecurityRule[],
+  custom: SecurityRuleConfig[],
+  config: SecurityConfig
+): SecurityRule[] {
+  const disabled = new Set(config.disabledRules);
+  const all: SecurityRule[] = [
+    ...builtins,
+    ...custom.map((r) => ({
+      id: r.id,
+      pattern: new RegExp(r.pattern, r.flags ?? "i"),
+      severity: r.severity ?? "high",
+      desc: r.description ?? r.id,
+    })),
+  ];
+
+  return all
+    .filter((r) => !disabled.has(r.id))
+    .map((r) => {
+      const override = config.severityOverrides[r.id];
+      return override ? { ...r, severity: override } : r;
+    });
+}
+
+/**
+ * Build the active rule set: built-ins minus disabled rules, plus custom
+ * rules, with severity overrides applied. Config is validated by parseConfig.
+ */
+export function buildRuleSet(config: SecurityConfig): SecurityRuleSet {
+  return {
+    sensitiveFiles: compileRules(SENSITIVE_FILE_RULES, config.rules.sensitiveFiles, config),
+    promptInjection: compileRules(PROMPT_INJECTION_RULES, config.rules.promptInjection, config),
+    dangerousCommands: compileRules(DANGEROUS_COMMAND_RULES, config.rules.dangerousCommands, config),
+    secrets: compileRules(SECRET_RULES, config.rules.secrets, config),
+    allowlist: {
+      paths: config.allowlist.paths.map((p) => new RegExp(p, "i")),
+      commands: config.allowlist.commands.map((p) => new RegExp(p, "i")),
+      agents: config.allowlist.agents,
+      sessions: config.allowlist.sessions,
+    },
+  };
+}
+
+function matchesIdList(list: string[], value: string | undefined): boolean {
+  if (!value) return false;
+  return list.some((entry) =>
+    entry.endsWith("*") ? value.startsWith(entry.slice(0, -1)) : value === entry
+  );
+}
+
+/**
+ * Whether detections are skipped entirely for this agent/session
+ */
+export function isAllowlisted(
+  rules: SecurityRuleSet,
+  sessionKey: string,
+  agentId?: string
+): boolean {
+  return (
+    matchesIdList(rules.allowlist.sessions, sessionKey) ||
+    matchesIdList(rules.allowlist.agents, agentId)
+  );
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -122,16 +271,22 @@ export interface SecurityCounters {
  * Detection 1: Check if a file path matches sensitive patterns
  */
 export function detectSensitiveFileAccess(
-  filePath: string
-): { detected: boolean; severity: Severity; pattern?: string } {
+  filePath: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET
+): { detected: boolean; severity: Severity; pattern?: string; ruleId?: string } {
+  if (rules.allowlist.paths.some((p) => p.test(filePath))) {
+    return { detected: false, severity: "info" };
+  }
+
   const normalizedPath = filePath.toLowerCase();
   
-  for (const pattern of SENSITIVE_FILE_PATTERNS) {
-    if (pattern.test(normalizedPath)) {
+  for (const rule of rules.sensitiveFiles) {
+    if (rule.pattern.test(normalizedPath)) {
       return {
         detected: true,
-        severity: "critical",
-        pattern: pattern.source,
+        severity: rule.severity,
+        pattern: rule.pattern.source,
+        ruleId: rule.id,
       };
     }
   }
@@ -143,20 +298,19 @@ export function detectSensitiveFileAccess(
  * Detection 2: Check message for prompt injection patterns
  */
 export function detectPromptInjection(
-  message: string
-): { detected: boolean; severity: Severity; patterns: string[] } {
-  const matchedPatterns: string[] = [];
+  message: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET
+): { detected: boolean; severity: Severity; patterns: string[]; ruleIds: string[] } {
+  const matched = rules.promptInjection.filter((rule) => rule.pattern.test(message));
   
-  for (const pattern of PROMPT_INJECTION_PATTERNS) {
-    if (pattern.test(message)) {
-      matchedPatterns.push(pattern.source);
-    }
-  }
+  // Several independent patterns at once is a strong signal — escalate
+  const severity: Severity = matched.length > 2 ? "critical" : highestSeverity(matched);
   
   return {
-    detected: matchedPatterns.length > 0,
-    severity: matchedPatterns.length > 2 ? "critical" : "high",
-    patterns: matchedPatterns,
+    detected: matched.length > 0,
+    severity,
+    patterns: matched.map((r) => r.pattern.source),
+    ruleIds: matched.map((r) => r.id),
   };
 }
 
@@ -164,82 +318,183 @@ export function detectPromptInjection(
  * Detection 3: Check command for dangerous patterns
  */
 export function detectDangerousCommand(
-  command: string
-): { detected: boolean; severity: Severity; matches: Array<{ pattern: string; desc: string; severity: Severity }> } {
-  const matches: Array<{ pattern: string; desc: string; severity: Severity }> = [];
+  command: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET
+): { detected: boolean; severity: Severity; matches: Array<{ id: string; pattern: string; desc: string; severity: Severity }> } {
+  if (rules.allowlist.commands.some((p) => p.test(command))) {
+    return { detected: false, severity: "info", matches: [] };
+  }
+
+  const matches: Array<{ id: string; pattern: string; desc: string; severity: Severity }> = [];
   
-  for (const { pattern, severity, desc } of DANGEROUS_COMMAND_PATTERNS) {
+  for (const { id, pattern, severity, desc } of rules.dangerousCommands) {
     if (pattern.test(command)) {
-      matches.push({ pattern: pattern.source, desc, severity });
+      matches.push({ id, pattern: pattern.source, desc, severity });
     }
   }
   
-  // Return highest severity found
-  let highestSeverity: Severity = "info";
-  if (matches.some(m => m.severity === "critical")) highestSeverity = "critical";
-  else if (matches.some(m => m.severity === "high")) highestSeverity = "high";
-  else if (matches.some(m => m.severity === "warning")) highestSeverity = "warning";
-  
   return {
     detected: matches.length > 0,
-    severity: highestSeverity,
+    severity: highestSeverity(matches),
+    matches,
+  };
+}
+
+/**
+ * Detection 5: Check text for secret material.
+ * Returns the kinds of secrets found — never the matched values.
+ */
+export function detectSecretExposure(
+  text: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET
+): { detected: boolean; severity: Severity; matches: Array<{ id: string; desc: string; severity: Severity }> } {
+  const matches: Array<{ id: string; desc: string; severity: Severity }> = [];
+
+  for (const { id, pattern, severity, desc, validate } of rules.secrets) {
+    const found = validate
+      ? [...text.matchAll(pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`))].some(validate)
+      : pattern.test(text);
+    if (found) {
+      matches.push({ id, desc, severity });
+    }
+  }
+
+  return {
+    detected: matches.length > 0,
+    severity: highestSeverity(matches),
     matches,
   };
 }
 
+/** Highest severity among matched rules ("info" when none) */
+function highestSeverity(matches: Array<{ severity: Severity }>): Severity {
+  if (matches.some(m => m.severity === "critical")) return "critical";
+  if (matches.some(m => m.severity === "high")) return "high";
+  if (matches.some(m => m.severity === "warning")) return "warning";
+  return "info";
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // SPAN ENRICHMENT
 // ═══════════════════════════════════════════════════════════════════
 
 /**
- * Add security event attributes to a span
+ * Add security event attributes to a span.
+ * The description (file path, command summary) goes through the redactor.
  */
 export function enrichSpanWithSecurityEvent(
   span: Span,
-  event: SecurityEvent
+  event: SecurityEvent,
+  redact: Redactor = passthroughRedactor
 ): void {
+  const description = redact(event.description) ?? "[REDACTED]";
   span.setAttribute("security.event.detected", true);
   span.setAttribute("security.event.detection", event.detection);
   span.setAttribute("security.event.severity", event.severity);
-  span.setAttribute("security.event.description", event.description);
+  span.setAttribute("security.event.description", description);
   span.setAttribute("security.event.timestamp", event.timestamp);
   
   // Set span status based on severity
   if (event.severity === "critical" || event.severity === "high") {
     span.setStatus({
       code: SpanStatusCode.ERROR,
-      message: `Security: ${event.detection} - ${event.description}`,
+      message: `Security: ${event.detection} - ${description}`,
     });
   }
   
   // Add event as span event (visible in trace timeline)
   span.addEvent("security.alert", {
     "security.detection": event.detection,
+    "security.severity": event.severity,
+    "security.description": description,
+  });
+}
+
+/**
+ * Check tool result or assistant reply text for leaked secrets.
+ * The event names the secret types and rule IDs only — values never leave.
+ */
+export function checkSecretExposure(
+  text: string,
+  source: "tool_result" | "assistant_message",
+  span: Span,
+  counters: SecurityCounters,
+  sessionKey: string,
+  agentId?: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET,
+  toolName?: string
+): SecurityEvent | null {
+  if (isAllowlisted(rules, sessionKey, agentId)) return null;
+
+  const detection = detectSecretExposure(text, rules);
+  if (!detection.detected) return null;
+
+  const where = source === "tool_result" ? `${toolName || "tool"} result` : "assistant reply";
+  const event: SecurityEvent = {
+    detection: "secret_exposure",
+    severity: detection.severity,
+    description: `Secret material in ${where}: ${detection.matches.map((m) => m.desc).join(", ")}`,
+    sessionKey,
+    agentId,
+    timestamp: Date.now(),
+    details: {
+      source,
+      ...(toolName ? { tool: toolName } : {}),
+      secretTypes: detection.matches.map((m) => m.desc),
+      ruleIds: detection.matches.map((m) => m.id),
+    },
+  };
+
+  enrichSpanWithSecurityEvent(span, event);
+  counters.securityEvents.add(1, { detection: "secret_exposure", severity: detection.severity });
+  for (const match of detection.matches) {
+    counters.secretExposure.add(1, { secret_type: match.id, source });
+  }
+
+  return event;
+}
+
+/**
+ * Mark the agent turn that consumed a tool result carrying injected
+ * instructions. The turn keeps its own status — the tool span holds the error.
+ */
+export function markTurnWithIndirectInjection(
+  agentSpan: Span,
+  event: SecurityEvent,
+  toolCallId?: string
+): void {
+  agentSpan.setAttribute("security.event.detected", true);
+  agentSpan.setAttribute("security.indirect_injection.detected", true);
+  agentSpan.addEvent("security.indirect_injection", {
     "security.severity": event.severity,
     "security.description": event.description,
+    "openclaw.tool.name": event.details.tool,
+    ...(toolCallId ? { "openclaw.tool.call_id": toolCallId } : {}),
   });
 }
 
 /**
- * Check tool call and enrich span with security detection if matched
+ * Evaluate a tool call against the detection rules without side effects.
+ * Used both before execution (enforcement) and after (telemetry).
  */
-export function checkToolSecurity(
+export function evaluateToolSecurity(
   toolName: string,
   toolInput: any,
-  span: Span,
-  counters: SecurityCounters,
   sessionKey: string,
-  agentId?: string
+  agentId?: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET
 ): SecurityEvent | null {
+  if (isAllowlisted(rules, sessionKey, agentId)) return null;
+
   const timestamp = Date.now();
   
   // Detection 1: Sensitive file access (Read, Write, Edit tools)
   if (["Read", "read", "Write", "write", "Edit", "edit"].includes(toolName)) {
     const filePath = toolInput?.path || toolInput?.file_path || toolInput?.filePath || "";
-    const detection = detectSensitiveFileAccess(filePath);
+    const detection = detectSensitiveFileAccess(filePath, rules);
     
     if (detection.detected) {
-      const event: SecurityEvent = {
+      return {
         detection: "sensitive_file_access",
         severity: detection.severity,
         description: `Access to sensitive file: ${filePath}`,
@@ -250,24 +505,19 @@ export function checkToolSecurity(
           tool: toolName,
           filePath,
           matchedPattern: detection.pattern,
+          ruleId: detection.ruleId,
         },
       };
-      
-      enrichSpanWithSecurityEvent(span, event);
-      counters.securityEvents.add(1, { detection: "sensitive_file_access", severity: detection.severity });
-      counters.sensitiveFileAccess.add(1, { file_pattern: detection.pattern || "unknown" });
-      
-      return event;
     }
   }
   
   // Detection 3: Dangerous command execution
   if (["exec", "Exec"].includes(toolName)) {
     const command = toolInput?.command || "";
-    const detection = detectDangerousCommand(command);
+    const detection = detectDangerousCommand(command, rules);
     
     if (detection.detected) {
-      const event: SecurityEvent = {
+      return {
         detection: "dangerous_command",
         severity: detection.severity,
         description: detection.matches.map(m => m.desc).join(", "),
@@ -280,18 +530,53 @@ export function checkToolSecurity(
           matches: detection.matches,
         },
       };
-      
-      enrichSpanWithSecurityEvent(span, event);
-      counters.securityEvents.add(1, { detection: "dangerous_command", severity: detection.severity });
-      counters.dangerousCommand.add(1, { command_type: detection.matches[0]?.desc || "unknown" });
-      
-      return event;
     }
   }
   
   return null;
 }
 
+/**
+ * Check tool call and enrich span with security detection if matched
+ */
+export function checkToolSecurity(
+  toolName: string,
+  toolInput: any,
+  span: Span,
+  counters: SecurityCounters,
+  sessionKey: string,
+  agentId?: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET,
+  redact: Redactor = passthroughRedactor
+): SecurityEvent | null {
+  const event = evaluateToolSecurity(toolName, toolInput, sessionKey, agentId, rules);
+  if (!event) return null;
+
+  recordToolSecurityEvent(event, span, counters, redact);
+  return event;
+}
+
+/**
+ * Record a tool detection already evaluated by evaluateToolSecurity — span
+ * attributes plus counters. Used directly when enforcement has evaluated
+ * the call before it ran, so it is counted once.
+ */
+export function recordToolSecurityEvent(
+  event: SecurityEvent,
+  span: Span,
+  counters: SecurityCounters,
+  redact: Redactor = passthroughRedactor
+): void {
+  enrichSpanWithSecurityEvent(span, event, redact);
+  counters.securityEvents.add(1, { detection: event.detection, severity: event.severity });
+
+  if (event.detection === "sensitive_file_access") {
+    counters.sensitiveFileAccess.add(1, { file_pattern: event.details.matchedPattern || "unknown" });
+  } else if (event.detection === "dangerous_command") {
+    counters.dangerousCommand.add(1, { command_type: event.details.matches[0]?.desc || "unknown" });
+  }
+}
+
 /**
  * Check message content for prompt injection
  */
@@ -299,9 +584,13 @@ export function checkMessageSecurity(
   messageContent: string,
   span: Span,
   counters: SecurityCounters,
-  sessionKey: string
+  sessionKey: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET,
+  redact: Redactor = passthroughRedactor
 ): SecurityEvent | null {
-  const detection = detectPromptInjection(messageContent);
+  if (isAllowlisted(rules, sessionKey)) return null;
+
+  const detection = detectPromptInjection(messageContent, rules);
   
   if (detection.detected) {
     const event: SecurityEvent = {
@@ -312,13 +601,14 @@ export function checkMessageSecurity(
       timestamp: Date.now(),
       details: {
         patternsMatched: detection.patterns,
+        ruleIds: detection.ruleIds,
         messagePreview: messageContent.slice(0, 200),
       },
     };
     
-    enrichSpanWithSecurityEvent(span, event);
+    enrichSpanWithSecurityEvent(span, event, redact);
     counters.securityEvents.add(1, { detection: "prompt_injection", severity: detection.severity });
-    counters.promptInjection.add(1, { pattern_count: String(detection.patterns.length) });
+    counters.promptInjection.add(1, { pattern_count: String(detection.patterns.length), source: "message" });
     
     return event;
   }
@@ -326,6 +616,48 @@ export function checkMessageSecurity(
   return null;
 }
 
+/**
+ * Check tool result text for indirect prompt injection — instructions
+ * planted in fetched pages, files or emails that the agent will read.
+ */
+export function checkToolResultSecurity(
+  toolName: string,
+  resultText: string,
+  span: Span,
+  counters: SecurityCounters,
+  sessionKey: string,
+  agentId?: string,
+  rules: SecurityRuleSet = DEFAULT_RULE_SET,
+  redact: Redactor = passthroughRedactor
+): SecurityEvent | null {
+  if (isAllowlisted(rules, sessionKey, agentId)) return null;
+
+  const detection = detectPromptInjection(resultText, rules);
+  if (!detection.detected) return null;
+
+  const event: SecurityEvent = {
+    detection: "prompt_injection",
+    severity: detection.severity,
+    description: `Potential indirect prompt injection in ${toolName} result: ${detection.patterns.length} patterns matched`,
+    sessionKey,
+    agentId,
+    timestamp: Date.now(),
+    details: {
+      source: "tool_result",
+      tool: toolName,
+      patternsMatched: detection.patterns,
+      ruleIds: detection.ruleIds,
+      resultPreview: resultText.slice(0, 200),
+    },
+  };
+
+  enrichSpanWithSecurityEvent(span, event, redact);
+  counters.securityEvents.add(1, { detection: "prompt_injection", severity: detection.severity });
+  counters.promptInjection.add(1, { pattern_count: String(detection.patterns.length), source: "tool_result" });
+
+  return event;
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // DYNATRACE METRIC QUERIES (for Detection 4: Token Spike)
 // ═══════════════════════════════════════════════════════════════════
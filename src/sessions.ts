@@ -0,0 +1,231 @@
+/**
+ * Session registry — tracks conversation sessions across agent turns, so
+ * openclaw.sessions.active reflects real sessions instead of in-flight turns.
+ *
+ * A session starts with its first agent turn and ends when:
+ *   - the user starts over (command:new / command:reset)
+ *   - no turn arrives within the idle timeout (a session with a turn still
+ *     running is never idle)
+ *   - the gateway stops
+ *
+ * Each ending records the openclaw.session.duration histogram and a
+ * standalone "openclaw.session" summary span covering the whole session
+ * (first turn → last activity) with its turn count, tokens and cost.
+ *
+ * The registry also keeps what the otel_usage tool reports back to the
+ * agent: tool call counts, context window usage and recent security
+ * detections per session, and per-agent totals for the current UTC day.
+ */
+
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { SessionsConfig } from "./config.js";
+import type { SecurityEvent } from "./security.js";
+import type { TelemetryRuntime } from "./telemetry.js";
+
+/** Security detections remembered per session */
+const MAX_DETECTIONS = 10;
+
+export type SessionEndReason = "new" | "reset" | "idle" | "shutdown";
+
+export interface SessionRecord {
+  sessionKey: string;
+  agentId: string;
+  channel: string;
+  firstSeen: number;
+  lastActivity: number;
+  turns: number;
+  tokens: number;
+  costUsd: number;
+  /** Calls per tool name */
+  toolCalls: Record<string, number>;
+  /** Context window usage of the latest turn that reported it */
+  contextUsed?: number;
+  contextLimit?: number;
+  /** Most recent security detections, oldest first */
+  detections: SessionDetection[];
+}
+
+export interface SessionDetection {
+  detection: string;
+  severity: string;
+  timestamp: number;
+}
+
+/** An agent's usage for one calendar day (UTC) */
+export interface AgentUsage {
+  date: string;
+  turns: number;
+  tokens: number;
+  costUsd: number;
+  toolCalls: number;
+}
+
+export class SessionRegistry {
+  private readonly sessions = new Map<string, SessionRecord>();
+  private readonly agents = new Map<string, AgentUsage>();
+  /** Session keys with an agent turn started but not yet finished */
+  private readonly turnsInFlight = new Set<string>();
+
+  constructor(
+    private readonly telemetry: TelemetryRuntime,
+    private readonly config: SessionsConfig
+  ) {}
+
+  /**
+   * Note activity at the start of an agent turn. The first turn of a
+   * session key (or the first after it ended) opens a new session.
+   */
+  touch(sessionKey: string, agentId: string, channel: string, now = Date.now()): SessionRecord {
+    let session = this.sessions.get(sessionKey);
+    if (!session) {
+      session = {
+        sessionKey,
+        agentId,
+        channel,
+        firstSeen: now,
+        lastActivity: now,
+        turns: 0,
+        tokens: 0,
+        costUsd: 0,
+        toolCalls: {},
+        detections: [],
+      };
+      this.sessions.set(sessionKey, session);
+      this.telemetry.gauges.activeSessions.add(1, { "openclaw.message.channel": channel });
+    }
+    session.lastActivity = now;
+    this.turnsInFlight.add(sessionKey);
+    return session;
+  }
+
+  /** Add a finished turn's usage to its session */
+  recordTurn(sessionKey: string, tokens: number, costUsd: number | undefined, now = Date.now()): void {
+    this.turnsInFlight.delete(sessionKey);
+    const session = this.sessions.get(sessionKey);
+    if (!session) return;
+    session.turns += 1;
+    session.tokens += tokens;
+    session.costUsd += costUsd ?? 0;
+    session.lastActivity = now;
+
+    const agent = this.agentDay(session.agentId, now);
+    agent.turns += 1;
+    agent.tokens += tokens;
+    agent.costUsd += costUsd ?? 0;
+  }
+
+  /** A turn that ended without reporting usage (e.g. closed as orphaned) */
+  endTurn(sessionKey: string, now = Date.now()): void {
+    this.turnsInFlight.delete(sessionKey);
+    const session = this.sessions.get(sessionKey);
+    if (session) session.lastActivity = now;
+  }
+
+  /** Note the context window usage reported for a turn */
+  recordContext(sessionKey: string, used: number | undefined, limit: number | undefined): void {
+    const session = this.sessions.get(sessionKey);
+    if (!session || used === undefined) return;
+    session.contextUsed = used;
+    session.contextLimit = limit ?? session.contextLimit;
+  }
+
+  recordToolCall(sessionKey: string, toolName: string, now = Date.now()): void {
+    const session = this.sessions.get(sessionKey);
+    if (!session) return;
+    session.lastActivity = now;
+    session.toolCalls[toolName] = (session.toolCalls[toolName] ?? 0) + 1;
+    this.agentDay(session.agentId, now).toolCalls += 1;
+  }
+
+  /** Remember a security detection for its session (if it has one) */
+  recordDetection(event: SecurityEvent): void {
+    const session = this.sessions.get(event.sessionKey);
+    if (!session) return;
+    session.detections.push({ detection: event.detection, severity: event.severity, timestamp: event.timestamp });
+    if (session.detections.length > MAX_DETECTIONS) session.detections.shift();
+  }
+
+  /** An agent's usage so far today (UTC) */
+  agentUsage(agentId: string, now = Date.now()): AgentUsage {
+    return { ...this.agentDay(agentId, now) };
+  }
+
+  get(sessionKey: string): SessionRecord | undefined {
+    return this.sessions.get(sessionKey);
+  }
+
+  /** Currently active sessions */
+  list(): SessionRecord[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * End a session: update the gauge, record its duration and summary span.
+   */
+  end(sessionKey: string, reason: SessionEndReason, now = Date.now()): void {
+    const session = this.sessions.get(sessionKey);
+    if (!session) return;
+    this.sessions.delete(sessionKey);
+    this.turnsInFlight.delete(sessionKey);
+
+    const { telemetry } = this;
+    // An idle session ended at its last activity, not when the sweep noticed
+    const endTime = reason === "idle" ? session.lastActivity : now;
+    const durationMs = endTime - session.firstSeen;
+
+    telemetry.gauges.activeSessions.add(-1, { "openclaw.message.channel": session.channel });
+    telemetry.histograms.sessionDuration.record(durationMs, {
+      "openclaw.message.channel": session.channel,
+      "openclaw.session.end_reason": reason,
+    });
+
+    const span = telemetry.tracer.startSpan("openclaw.session", {
+      kind: SpanKind.INTERNAL,
+      startTime: session.firstSeen,
+      attributes: {
+        "openclaw.session.key": session.sessionKey,
+        "openclaw.agent.id": session.agentId,
+        "openclaw.message.channel": session.channel,
+        "openclaw.session.turns": session.turns,
+        "openclaw.session.duration_ms": durationMs,
+        "openclaw.session.end_reason": reason,
+        "gen_ai.usage.total_tokens": session.tokens,
+        "openclaw.llm.cost_usd": session.costUsd,
+      },
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end(endTime);
+
+    telemetry.logger.debug?.(`[otel] Session ended (${reason}): session=${sessionKey}, turns=${session.turns}`);
+  }
+
+  private agentDay(agentId: string, now: number): AgentUsage {
+    const date = new Date(now).toISOString().slice(0, 10);
+    let usage = this.agents.get(agentId);
+    if (!usage || usage.date !== date) {
+      usage = { date, turns: 0, tokens: 0, costUsd: 0, toolCalls: 0 };
+      this.agents.set(agentId, usage);
+    }
+    return usage;
+  }
+
+  /** End every session idle for longer than the timeout; returns their keys */
+  sweep(now = Date.now()): string[] {
+    const ended: string[] = [];
+    for (const session of [...this.sessions.values()]) {
+      if (this.turnsInFlight.has(session.sessionKey)) continue;
+      if (now - session.lastActivity > this.config.idleTimeoutMs) {
+        this.end(session.sessionKey, "idle", now);
+        ended.push(session.sessionKey);
+      }
+    }
+    return ended;
+  }
+
+  /** End every open session — on stop, so the active-sessions gauge returns to zero */
+  endAll(now = Date.now()): void {
+    for (const sessionKey of [...this.sessions.keys()]) {
+      this.end(sessionKey, "shutdown", now);
+    }
+  }
+}
@@ -1,35 +1,84 @@
 /**
  * Core OpenTelemetry setup — initializes tracing (with OpenLLMetry),
- * metrics, and resource configuration.
+ * metrics, logs, and resource configuration.
  *
  * OpenLLMetry auto-instruments Anthropic/OpenAI SDK calls and produces
  * standard OTel spans following the GenAI semantic conventions.
  */
 
+import { createRequire } from "node:module";
+import type { Metadata } from "@grpc/grpc-js";
 import { trace, metrics, context, SpanKind, SpanStatusCode } from "@opentelemetry/api";
 import type { Span, Tracer, Meter, Counter, Histogram, UpDownCounter } from "@opentelemetry/api";
-import { resourceFromAttributes } from "@opentelemetry/resources";
+import { resourceFromAttributes, type Resource } from "@opentelemetry/resources";
 import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from "@opentelemetry/semantic-conventions";
 
 import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
-import { BatchSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import { BatchSpanProcessor, type SpanExporter, type SpanProcessor } from "@opentelemetry/sdk-trace-node";
 import { OTLPTraceExporter as OTLPTraceExporterHTTP } from "@opentelemetry/exporter-trace-otlp-http";
 import { OTLPTraceExporter as OTLPTraceExporterGRPC } from "@opentelemetry/exporter-trace-otlp-grpc";
 
-import { MeterProvider, PeriodicExportingMetricReader } from "@opentelemetry/sdk-metrics";
+import {
+  MeterProvider,
+  PeriodicExportingMetricReader,
+  type MetricReader,
+  type PushMetricExporter,
+} from "@opentelemetry/sdk-metrics";
 import { OTLPMetricExporter as OTLPMetricExporterHTTP } from "@opentelemetry/exporter-metrics-otlp-http";
 import { OTLPMetricExporter as OTLPMetricExporterGRPC } from "@opentelemetry/exporter-metrics-otlp-grpc";
 
-import type { OtelObservabilityConfig } from "./config.js";
+import { logs, type Logger } from "@opentelemetry/api-logs";
+import { LoggerProvider, BatchLogRecordProcessor, type LogRecordExporter } from "@opentelemetry/sdk-logs";
+import { OTLPLogExporter as OTLPLogExporterHTTP } from "@opentelemetry/exporter-logs-otlp-http";
+import { OTLPLogExporter as OTLPLogExporterGRPC } from "@opentelemetry/exporter-logs-otlp-grpc";
+
+import type { OtelObservabilityConfig, SignalsConfig } from "./config.js";
+import type { SecurityEvent } from "./security.js";
+import { createLogBridge, emitSecurityLog } from "./logs.js";
+import { createSampler, TailSamplingSpanProcessor } from "./sampling.js";
+import { createRedactor, loadHashKey, type Redactor } from "./redaction.js";
+import { FileLogExporter, FileMetricExporter, FileSpanExporter } from "./file-exporter.js";
+import { startPrometheusEndpoint, type PrometheusEndpoint } from "./prometheus.js";
+import { PricingCatalog } from "./pricing.js";
+import {
+  BATCH_QUEUE_SIZE,
+  ExporterHealth,
+  MonitoredLogExporter,
+  MonitoredMetricExporter,
+  MonitoredSpanExporter,
+  QueueMonitorLogProcessor,
+  QueueMonitorSpanProcessor,
+} from "./exporter-health.js";
+import { RecentTraceBuffer } from "./recent-traces.js";
+import { DiskRetryQueue, RetryingLogExporter, RetryingMetricExporter, RetryingSpanExporter } from "./retry-queue.js";
+import { HeaderSecrets, resolveHeaders } from "./secrets.js";
 
 // ── Types ───────────────────────────────────────────────────────────
 
 export interface TelemetryRuntime {
   tracer: Tracer;
   meter: Meter;
+  /** OTel logger for structured log records (no-op when logs are disabled) */
+  otelLogger: Logger;
+  /** Plugin logger — also exports info/warn/error lines as OTLP logs when enabled */
+  logger: any;
   counters: OtelCounters;
   histograms: OtelHistograms;
   gauges: OtelGauges;
+  /** Scrub secrets/PII from content before it is attached to spans or logs */
+  redact: Redactor;
+  /** Model prices for estimating and cross-checking LLM cost */
+  pricing: PricingCatalog;
+  /** Export outcomes, latency and queue depth per signal */
+  exporterHealth: ExporterHealth;
+  /** Recently finished request traces (undefined when disabled or traces are off) */
+  recentTraces?: RecentTraceBuffer;
+  /** Disk-backed queue of failed exports (undefined when disabled) */
+  retryQueue?: DiskRetryQueue;
+  /** Secret references in exporter headers, kept resolved */
+  headerSecrets: HeaderSecrets;
+  /** Log a security detection locally and as a correlated OTLP log record */
+  emitSecurityEvent: (event: SecurityEvent, span?: Span) => void;
   shutdown: () => Promise<void>;
 }
 
@@ -44,6 +93,8 @@ export interface OtelCounters {
   tokensPrompt: Counter;
   /** Completion tokens */
   tokensCompletion: Counter;
+  /** LLM cost in USD */
+  llmCost: Counter;
   /** Tool invocations */
   toolCalls: Counter;
   /** Tool errors */
@@ -54,6 +105,8 @@ export interface OtelCounters {
   messagesReceived: Counter;
   /** Messages sent */
   messagesSent: Counter;
+  /** Outbound message deliveries that failed */
+  messagesFailed: Counter;
   /** Security events detected */
   securityEvents: Counter;
   /** Sensitive file access attempts */
@@ -62,6 +115,14 @@ export interface OtelCounters {
   promptInjection: Counter;
   /** Dangerous command executions */
   dangerousCommand: Counter;
+  /** Secret material seen in tool results or replies */
+  secretExposure: Counter;
+  /** Tool calls refused by enforcement mode */
+  securityBlocked: Counter;
+  /** Budget threshold crossings */
+  budgetExceeded: Counter;
+  /** Traces closed by timeout instead of their end hook */
+  tracesOrphaned: Counter;
 }
 
 export interface OtelHistograms {
@@ -71,6 +132,10 @@ export interface OtelHistograms {
   toolDuration: Histogram;
   /** Agent turn duration in ms */
   agentTurnDuration: Histogram;
+  /** Session duration (first turn → last activity) in ms */
+  sessionDuration: Histogram;
+  /** Outbound message size in bytes */
+  messageSize: Histogram;
 }
 
 export interface OtelGauges {
@@ -78,9 +143,101 @@ export interface OtelGauges {
   activeSessions: UpDownCounter;
 }
 
+// ── Exporters ───────────────────────────────────────────────────────
+
+export type ExportTargets = Record<keyof SignalsConfig, string>;
+
+/** How one signal is exported, with its signals.<signal> overrides applied */
+export interface SignalExport {
+  protocol: "http" | "grpc" | "file";
+  /** Full URL for http, the endpoint for grpc, the output directory for file */
+  target: string;
+  /** As configured — values may hold ${env:…} / ${file:…} references */
+  headers: Record<string, string>;
+  timeoutMs: number;
+}
+
+/**
+ * Resolve a signal's export settings. A per-signal endpoint is used as-is;
+ * the top-level one gets /v1/<signal> appended for http. Protocol "file"
+ * applies to every signal.
+ */
+export function signalExport(config: OtelObservabilityConfig, signal: keyof SignalsConfig): SignalExport {
+  if (config.protocol === "file") {
+    return { protocol: "file", target: config.file.directory, headers: {}, timeoutMs: config.timeoutMs };
+  }
+  const overrides = config.signals[signal];
+  const protocol = overrides.protocol ?? config.protocol;
+  return {
+    protocol,
+    target:
+      overrides.endpoint ??
+      (protocol === "http" ? `${config.endpoint.replace(/\/+$/, "")}/v1/${signal}` : config.endpoint),
+    headers: { ...config.headers, ...overrides.headers },
+    timeoutMs: overrides.timeoutMs ?? config.timeoutMs,
+  };
+}
+
+/** Where each signal goes (see signalExport) */
+export function exportTargets(config: OtelObservabilityConfig): ExportTargets {
+  return {
+    traces: signalExport(config, "traces").target,
+    metrics: signalExport(config, "metrics").target,
+    logs: signalExport(config, "logs").target,
+  };
+}
+
+/**
+ * Headers as gRPC call metadata — the gRPC exporters ignore `headers`.
+ * They copy it on their first export, so rotated secret values reach a
+ * gRPC exporter only after a restart.
+ */
+function grpcMetadata(headers: Record<string, string>): Metadata {
+  // Loaded on demand, like the exporters do, so HTTP-only setups never load gRPC
+  const { Metadata } = createRequire(import.meta.url)("@grpc/grpc-js") as typeof import("@grpc/grpc-js");
+  const metadata = new Metadata();
+  for (const [name, value] of Object.entries(headers)) {
+    metadata.set(name.toLowerCase(), value);
+  }
+  return metadata;
+}
+
+export function createSpanExporter(config: OtelObservabilityConfig, headers?: Record<string, string>): SpanExporter {
+  const target = signalExport(config, "traces");
+  const { protocol, target: url, timeoutMs: timeoutMillis } = target;
+  headers ??= protocol === "file" ? {} : resolveHeaders(target.headers);
+  return protocol === "file"
+    ? new FileSpanExporter(config.file)
+    : protocol === "grpc"
+      ? new OTLPTraceExporterGRPC({ url, metadata: grpcMetadata(headers), timeoutMillis })
+      : new OTLPTraceExporterHTTP({ url, headers, timeoutMillis });
+}
+
+export function createMetricExporter(config: OtelObservabilityConfig, headers?: Record<string, string>): PushMetricExporter {
+  const target = signalExport(config, "metrics");
+  const { protocol, target: url, timeoutMs: timeoutMillis } = target;
+  headers ??= protocol === "file" ? {} : resolveHeaders(target.headers);
+  return protocol === "file"
+    ? new FileMetricExporter(config.file)
+    : protocol === "grpc"
+      ? new OTLPMetricExporterGRPC({ url, metadata: grpcMetadata(headers), timeoutMillis })
+      : new OTLPMetricExporterHTTP({ url, headers, timeoutMillis });
+}
+
+export function createLogExporter(config: OtelObservabilityConfig, headers?: Record<string, string>): LogRecordExporter {
+  const target = signalExport(config, "logs");
+  const { protocol, target: url, timeoutMs: timeoutMillis } = target;
+  headers ??= protocol === "file" ? {} : resolveHeaders(target.headers);
+  return protocol === "file"
+    ? new FileLogExporter(config.file)
+    : protocol === "grpc"
+      ? new OTLPLogExporterGRPC({ url, metadata: grpcMetadata(headers), timeoutMillis })
+      : new OTLPLogExporterHTTP({ url, headers, timeoutMillis });
+}
+
 // ── Init ────────────────────────────────────────────────────────────
 
-export function initTelemetry(config: OtelObservabilityConfig, logger: any): TelemetryRuntime {
+export function telemetryResource(config: OtelObservabilityConfig): Resource {
   const resourceAttrs: Record<string, string> = {
     [ATTR_SERVICE_NAME]: config.serviceName,
     [ATTR_SERVICE_VERSION]: "0.1.0",
@@ -88,68 +245,194 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
     ...config.resourceAttributes,
   };
 
-  const resource = resourceFromAttributes(resourceAttrs);
+  return resourceFromAttributes(resourceAttrs);
+}
 
-  // Resolve endpoint suffixes for HTTP protocol
-  const traceEndpoint =
-    config.protocol === "http"
-      ? `${config.endpoint}/v1/traces`
-      : config.endpoint;
-  const metricsEndpoint =
-    config.protocol === "http"
-      ? `${config.endpoint}/v1/metrics`
-      : config.endpoint;
+export function initTelemetry(config: OtelObservabilityConfig, baseLogger: any): TelemetryRuntime {
+  const resource = telemetryResource(config);
+
+  // Resolve per-signal endpoints, protocols and headers (file mode logs the directory)
+  const traceExport = signalExport(config, "traces");
+  const metricsExport = signalExport(config, "metrics");
+  const logsExport = signalExport(config, "logs");
+
+  // Header secret references, resolved before any exporter is built. From
+  // here on every log line is masked, so a resolved token cannot leak.
+  const headerSecrets = new HeaderSecrets(config.secrets, baseLogger);
+  const logger = headerSecrets.wrapLogger(baseLogger);
+  const traceHeaders = config.traces ? headerSecrets.track("traces", traceExport.headers) : {};
+  const metricsHeaders = config.metrics ? headerSecrets.track("metrics", metricsExport.headers) : {};
+  const logsHeaders = config.logs ? headerSecrets.track("logs", logsExport.headers) : {};
+
+  // ── Retry queue ─────────────────────────────────────────────────
+  // Replays are plain OTLP/HTTP JSON requests, so only signals exported
+  // over http can use the queue.
+
+  let retryQueue: DiskRetryQueue | undefined;
+
+  if (config.retryQueue.enabled) {
+    if ([traceExport, metricsExport, logsExport].some((target) => target.protocol === "http")) {
+      retryQueue = new DiskRetryQueue(
+        config.retryQueue,
+        {
+          urls: { traces: traceExport.target, metrics: metricsExport.target, logs: logsExport.target },
+          headers: { traces: traceHeaders, metrics: metricsHeaders, logs: logsHeaders },
+        },
+        logger
+      );
+      logger.info(`[otel] Retry queue → ${config.retryQueue.directory}`);
+    } else {
+      logger.warn?.(`[otel] retryQueue requires protocol "http" (got "${config.protocol}") — disabled`);
+    }
+  }
+
+  // Wraps every exporter below, inside the retry queue so it sees the real outcome
+  const exporterHealth = new ExporterHealth(logger, (text) => headerSecrets.mask(text));
 
   // ── Tracing ─────────────────────────────────────────────────────
 
   let tracerProvider: NodeTracerProvider | undefined;
+  let recentTraces: RecentTraceBuffer | undefined;
 
   if (config.traces) {
-    const traceExporter =
-      config.protocol === "grpc"
-        ? new OTLPTraceExporterGRPC({ url: traceEndpoint, headers: config.headers })
-        : new OTLPTraceExporterHTTP({ url: traceEndpoint, headers: config.headers });
+    const traceExporter = createSpanExporter(config, traceHeaders);
+    const monitoredSpanExporter = new MonitoredSpanExporter(traceExporter, exporterHealth);
+    const spanExporter =
+      retryQueue && traceExport.protocol === "http"
+        ? new RetryingSpanExporter(monitoredSpanExporter, retryQueue)
+        : monitoredSpanExporter;
+    exporterHealth.track("traces", true);
+
+    // Tail sampling holds spans back until the trace's root ends
+    const batchProcessor = new QueueMonitorSpanProcessor(
+      new BatchSpanProcessor(spanExporter, { maxQueueSize: BATCH_QUEUE_SIZE }),
+      exporterHealth
+    );
+    const spanProcessor: SpanProcessor =
+      config.sampling.mode === "tail"
+        ? new TailSamplingSpanProcessor(batchProcessor, config.sampling)
+        : batchProcessor;
+
+    // Sees every recorded span, including ones tail sampling later drops
+    if (config.recentTraces.enabled) {
+      recentTraces = new RecentTraceBuffer(config.recentTraces);
+    }
 
     // SDK v2: pass spanProcessors in constructor (addSpanProcessor was removed)
     tracerProvider = new NodeTracerProvider({
       resource,
-      spanProcessors: [new BatchSpanProcessor(traceExporter)],
+      sampler: createSampler(config.sampling),
+      spanProcessors: recentTraces ? [spanProcessor, recentTraces] : [spanProcessor],
     });
     tracerProvider.register();
 
-    logger.info(`[otel] Trace exporter → ${traceEndpoint} (${config.protocol})`);
+    logger.info(`[otel] Trace exporter → ${traceExport.target} (${traceExport.protocol})`);
+    if (config.sampling.mode !== "always_on") {
+      logger.info(`[otel] Trace sampling: mode=${config.sampling.mode}, ratio=${config.sampling.ratio}`);
+    }
   }
 
   // ── Metrics ─────────────────────────────────────────────────────
 
   let meterProvider: MeterProvider | undefined;
+  let prometheusEndpoint: PrometheusEndpoint | undefined;
 
-  if (config.metrics) {
-    const metricExporter =
-      config.protocol === "grpc"
-        ? new OTLPMetricExporterGRPC({ url: metricsEndpoint, headers: config.headers })
-        : new OTLPMetricExporterHTTP({ url: metricsEndpoint, headers: config.headers });
+  if (config.metrics || config.prometheus.enabled) {
+    const readers: MetricReader[] = [];
 
-    meterProvider = new MeterProvider({
-      resource,
-      readers: [
+    if (config.metrics) {
+      const metricExporter = createMetricExporter(config, metricsHeaders);
+      const monitoredMetricExporter = new MonitoredMetricExporter(metricExporter, exporterHealth);
+      exporterHealth.track("metrics", false);
+
+      readers.push(
         new PeriodicExportingMetricReader({
-          exporter: metricExporter,
+          exporter:
+            retryQueue && metricsExport.protocol === "http"
+              ? new RetryingMetricExporter(monitoredMetricExporter, retryQueue)
+              : monitoredMetricExporter,
           exportIntervalMillis: config.metricsIntervalMs,
-        }),
-      ],
-    });
+        })
+      );
+    }
+
+    // Pull-based reader for Prometheus scrapes, alongside or instead of OTLP push
+    if (config.prometheus.enabled) {
+      prometheusEndpoint = startPrometheusEndpoint(config.prometheus, logger);
+      readers.push(prometheusEndpoint.reader);
+    }
+
+    meterProvider = new MeterProvider({ resource, readers });
 
     // Register as global meter provider so metrics.getMeter() returns a real meter
     metrics.setGlobalMeterProvider(meterProvider);
 
-    logger.info(`[otel] Metrics exporter → ${metricsEndpoint} (${config.protocol}, interval=${config.metricsIntervalMs}ms)`);
+    if (config.metrics) {
+      logger.info(`[otel] Metrics exporter → ${metricsExport.target} (${metricsExport.protocol}, interval=${config.metricsIntervalMs}ms)`);
+    }
+    if (config.prometheus.enabled) {
+      logger.info(`[otel] Prometheus endpoint → http://${config.prometheus.host}:${config.prometheus.port}${config.prometheus.endpoint}`);
+    }
+  }
+
+  // ── Logs ────────────────────────────────────────────────────────
+
+  let loggerProvider: LoggerProvider | undefined;
+
+  if (config.logs) {
+    const logExporter = createLogExporter(config, logsHeaders);
+
+    const monitoredLogExporter = new MonitoredLogExporter(logExporter, exporterHealth);
+    const logRecordExporter =
+      retryQueue && logsExport.protocol === "http"
+        ? new RetryingLogExporter(monitoredLogExporter, retryQueue)
+        : monitoredLogExporter;
+    exporterHealth.track("logs", true);
+
+    loggerProvider = new LoggerProvider({
+      resource,
+      processors: [
+        new QueueMonitorLogProcessor(
+          new BatchLogRecordProcessor(logRecordExporter, { maxQueueSize: BATCH_QUEUE_SIZE }),
+          exporterHealth
+        ),
+      ],
+    });
+
+    // Register as global logger provider so logs.getLogger() returns a real logger
+    logs.setGlobalLoggerProvider(loggerProvider);
+
+    logger.info(`[otel] Log exporter → ${logsExport.target} (${logsExport.protocol})`);
   }
 
   // ── Instruments ─────────────────────────────────────────────────
 
   const tracer = trace.getTracer("openclaw-observability", "0.1.0");
   const meter = metrics.getMeter("openclaw-observability", "0.1.0");
+  const otelLogger = logs.getLogger("openclaw-observability", "0.1.0");
+
+  // From here on, plugin log lines are also exported as OTLP log records
+  // (masked before the bridge, so the records are masked too)
+  const pluginLogger = loggerProvider ? headerSecrets.wrapLogger(createLogBridge(baseLogger, otelLogger)) : logger;
+
+  exporterHealth.bindMetrics(meter);
+
+  let hashKey: Buffer | undefined;
+  try {
+    hashKey = loadHashKey(config.redaction);
+  } catch (err) {
+    logger.warn?.(
+      `[otel] Redaction hash key unavailable (${err instanceof Error ? err.message : String(err)}) — ` +
+        "hashed values will not match across restarts"
+    );
+  }
+  const redact = createRedactor(config.redaction, hashKey);
+  const pricing = new PricingCatalog(config.pricing);
+
+  const emitSecurityEvent = (event: SecurityEvent, span?: Span) => {
+    logger.warn?.(`[otel] SECURITY: ${event.detection} - ${redact(event.description) ?? "[REDACTED]"}`);
+    if (loggerProvider) emitSecurityLog(otelLogger, event, span, redact);
+  };
 
   const counters: OtelCounters = {
     llmRequests: meter.createCounter("openclaw.llm.requests", {
@@ -172,6 +455,10 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
       description: "Completion tokens consumed",
       unit: "tokens",
     }),
+    llmCost: meter.createCounter("openclaw.llm.cost.usd", {
+      description: "Estimated LLM cost in USD",
+      unit: "usd",
+    }),
     toolCalls: meter.createCounter("openclaw.tool.calls", {
       description: "Total tool invocations",
       unit: "calls",
@@ -192,6 +479,10 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
       description: "Total outbound messages",
       unit: "messages",
     }),
+    messagesFailed: meter.createCounter("openclaw.messages.failed", {
+      description: "Outbound message deliveries that failed",
+      unit: "messages",
+    }),
     // Security detection counters
     securityEvents: meter.createCounter("openclaw.security.events", {
       description: "Total security events detected",
@@ -209,6 +500,22 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
       description: "Dangerous command executions detected",
       unit: "events",
     }),
+    secretExposure: meter.createCounter("openclaw.security.secret_exposure", {
+      description: "Secrets detected in tool results or assistant replies",
+      unit: "events",
+    }),
+    securityBlocked: meter.createCounter("openclaw.security.blocked", {
+      description: "Tool calls blocked by enforcement mode",
+      unit: "calls",
+    }),
+    budgetExceeded: meter.createCounter("openclaw.budget.exceeded", {
+      description: "Cost/token budget threshold crossings",
+      unit: "crossings",
+    }),
+    tracesOrphaned: meter.createCounter("openclaw.traces.orphaned", {
+      description: "Spans closed by timeout because their end hook never fired",
+      unit: "traces",
+    }),
   };
 
   const histograms: OtelHistograms = {
@@ -224,6 +531,14 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
       description: "Full agent turn duration (LLM + tools)",
       unit: "ms",
     }),
+    sessionDuration: meter.createHistogram("openclaw.session.duration", {
+      description: "Session duration from first turn to last activity",
+      unit: "ms",
+    }),
+    messageSize: meter.createHistogram("openclaw.message.size", {
+      description: "Outbound message size",
+      unit: "By",
+    }),
   };
 
   const gauges: OtelGauges = {
@@ -238,6 +553,7 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
   // To maintain continuous timeseries (important for Dynatrace),
   // we periodically emit zero-value data points on all counters.
   // This ensures metrics always have data, even during idle periods.
+  // The Prometheus endpoint drops these points (see prometheus.ts).
 
   const metricHeartbeatInterval = setInterval(() => {
     try {
@@ -249,10 +565,12 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
       counters.tokensTotal.add(0, idleAttrs);
       counters.tokensPrompt.add(0, idleAttrs);
       counters.tokensCompletion.add(0, idleAttrs);
+      counters.llmCost.add(0, idleAttrs);
       counters.toolCalls.add(0, idleAttrs);
       counters.toolErrors.add(0, idleAttrs);
       counters.messagesReceived.add(0, idleAttrs);
       counters.messagesSent.add(0, idleAttrs);
+      counters.messagesFailed.add(0, idleAttrs);
       counters.sessionResets.add(0, idleAttrs);
 
       // Security counters
@@ -260,6 +578,10 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
       counters.sensitiveFileAccess.add(0, idleAttrs);
       counters.promptInjection.add(0, idleAttrs);
       counters.dangerousCommand.add(0, idleAttrs);
+      counters.secretExposure.add(0, idleAttrs);
+      counters.securityBlocked.add(0, idleAttrs);
+      counters.budgetExceeded.add(0, idleAttrs);
+      counters.tracesOrphaned.add(0, idleAttrs);
     } catch {
       // Never let metric heartbeat errors affect the gateway
     }
@@ -270,13 +592,41 @@ export function initTelemetry(config: OtelObservabilityConfig, logger: any): Tel
   const shutdown = async () => {
     logger.info("[otel] Shutting down telemetry...");
     clearInterval(metricHeartbeatInterval);
-    try {
-      if (tracerProvider) await tracerProvider.shutdown();
-      if (meterProvider) await meterProvider.shutdown();
-    } catch (err) {
-      logger.error(`[otel] Shutdown error: ${err instanceof Error ? err.message : String(err)}`);
+    // One after the other, each even if an earlier one failed — a provider
+    // that throws must not leave the retry or secret refresh timers running
+    const steps: Array<() => Promise<void> | void> = [
+      () => tracerProvider?.shutdown(),
+      () => meterProvider?.shutdown(),
+      () => prometheusEndpoint?.close(),
+      () => loggerProvider?.shutdown(),
+      // After the final flushes, which may still have queued batches
+      () => retryQueue?.stop(),
+      () => headerSecrets.stop(),
+    ];
+    for (const step of steps) {
+      try {
+        await step();
+      } catch (err) {
+        logger.error(`[otel] Shutdown error: ${err instanceof Error ? err.message : String(err)}`);
+      }
     }
   };
 
-  return { tracer, meter, counters, histograms, gauges, shutdown };
+  return {
+    tracer,
+    meter,
+    otelLogger,
+    logger: pluginLogger,
+    counters,
+    histograms,
+    gauges,
+    redact,
+    pricing,
+    exporterHealth,
+    recentTraces,
+    retryQueue,
+    headerSecrets,
+    emitSecurityEvent,
+    shutdown,
+  };
 }
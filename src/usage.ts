@@ -0,0 +1,255 @@
+/**
+ * Per-turn usage accumulation — sums tokens and cost across every LLM call
+ * made during one agent turn, so the turn and root spans report the turn's
+ * real totals instead of the last call's numbers.
+ *
+ * Calls are fed in from model.usage diagnostic events (diagnostics.ts) and
+ * the accumulated totals are finalized onto spans by agent_end (hooks.ts).
+ */
+
+import type { Span } from "@opentelemetry/api";
+
+/** Token and cost totals for one model within a turn */
+export interface ModelUsage {
+  provider: string;
+  calls: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  total: number;
+  costUsd?: number;
+}
+
+/** Accumulated usage for one agent turn */
+export interface TurnUsage {
+  calls: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  total: number;
+  /** Undefined unless at least one call reported or was priced with a cost */
+  costUsd?: number;
+  /** Where costUsd came from: diagnostic events or the pricing catalog */
+  costSource?: "diagnostics" | "pricing";
+  /** costUsd covers only some models — the catalog has no price for the rest */
+  costPartial?: boolean;
+  /** Catalog estimate for calls that reported a cost (cross-check) */
+  estimatedCostUsd?: number;
+  /** Largest context window usage seen across calls */
+  maxContextUsed?: number;
+  contextLimit?: number;
+  /** Model of the most recent call */
+  model: string;
+  provider: string;
+  /** Breakdown by model name */
+  byModel: Map<string, ModelUsage>;
+}
+
+/** A single LLM call's usage, as reported by a model.usage event */
+export interface LlmCallUsage {
+  costUsd?: number;
+  /** Pricing catalog estimate, set when cross-checking a reported cost */
+  estimatedCostUsd?: number;
+  /** Reported and estimated cost differ by more than the tolerance */
+  costMismatch?: boolean;
+  usage: {
+    input?: number;
+    output?: number;
+    cacheRead?: number;
+    cacheWrite?: number;
+    total?: number;
+  };
+  context?: {
+    limit?: number;
+    used?: number;
+  };
+  durationMs?: number;
+  provider?: string;
+  model?: string;
+}
+
+/** Map of sessionKey → usage accumulated for the in-flight turn */
+const turnUsageMap = new Map<string, TurnUsage>();
+
+export function createTurnUsage(): TurnUsage {
+  return {
+    calls: 0,
+    input: 0,
+    output: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    total: 0,
+    model: "unknown",
+    provider: "unknown",
+    byModel: new Map(),
+  };
+}
+
+/**
+ * Add one LLM call to a turn's totals.
+ */
+export function addCallToTurn(turn: TurnUsage, call: LlmCallUsage): void {
+  const u = call.usage || {};
+  const input = u.input || 0;
+  const output = u.output || 0;
+  const cacheRead = u.cacheRead || 0;
+  const cacheWrite = u.cacheWrite || 0;
+  const total = typeof u.total === "number" ? u.total : input + output + cacheRead + cacheWrite;
+  const model = call.model || "unknown";
+  const provider = call.provider || "unknown";
+
+  turn.calls += 1;
+  turn.input += input;
+  turn.output += output;
+  turn.cacheRead += cacheRead;
+  turn.cacheWrite += cacheWrite;
+  turn.total += total;
+  if (call.model) turn.model = call.model;
+  if (call.provider) turn.provider = call.provider;
+
+  if (typeof call.costUsd === "number") {
+    turn.costUsd = (turn.costUsd || 0) + call.costUsd;
+    turn.costSource = "diagnostics";
+  }
+  if (typeof call.estimatedCostUsd === "number") {
+    turn.estimatedCostUsd = (turn.estimatedCostUsd || 0) + call.estimatedCostUsd;
+  }
+  if (typeof call.context?.used === "number") {
+    turn.maxContextUsed = Math.max(turn.maxContextUsed || 0, call.context.used);
+  }
+  if (typeof call.context?.limit === "number") {
+    turn.contextLimit = call.context.limit;
+  }
+
+  let perModel = turn.byModel.get(model);
+  if (!perModel) {
+    perModel = { provider, calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 };
+    turn.byModel.set(model, perModel);
+  }
+  perModel.calls += 1;
+  perModel.input += input;
+  perModel.output += output;
+  perModel.cacheRead += cacheRead;
+  perModel.cacheWrite += cacheWrite;
+  perModel.total += total;
+  if (typeof call.costUsd === "number") {
+    perModel.costUsd = (perModel.costUsd || 0) + call.costUsd;
+  }
+}
+
+/**
+ * Reset the accumulator for a session at the start of a new turn.
+ */
+export function startTurnUsage(sessionKey: string): void {
+  turnUsageMap.set(sessionKey, createTurnUsage());
+}
+
+/**
+ * Record an LLM call against the session's in-flight turn.
+ */
+export function recordTurnUsage(sessionKey: string, call: LlmCallUsage): void {
+  let turn = turnUsageMap.get(sessionKey);
+  if (!turn) {
+    turn = createTurnUsage();
+    turnUsageMap.set(sessionKey, turn);
+  }
+  addCallToTurn(turn, call);
+}
+
+/**
+ * Get and clear the accumulated usage for a session (if any calls were recorded).
+ * Called by agent_end to finalize the turn.
+ */
+export function takeTurnUsage(sessionKey: string): TurnUsage | undefined {
+  const turn = turnUsageMap.get(sessionKey);
+  turnUsageMap.delete(sessionKey);
+  return turn && turn.calls > 0 ? turn : undefined;
+}
+
+/**
+ * Build turn usage from the assistant messages of a finished turn.
+ * Fallback when diagnostic events are not available.
+ */
+export function usageFromMessages(messages: any[]): TurnUsage {
+  const turn = createTurnUsage();
+
+  for (const msg of messages) {
+    if (msg?.role !== "assistant") continue;
+    if (!msg?.usage) {
+      if (msg?.model) turn.model = msg.model;
+      continue;
+    }
+    const u = msg.usage;
+    // pi-ai stores usage as .input/.output (normalized names)
+    const input =
+      typeof u.input === "number" ? u.input
+        : typeof u.inputTokens === "number" ? u.inputTokens
+          : typeof u.input_tokens === "number" ? u.input_tokens
+            : 0;
+    const output =
+      typeof u.output === "number" ? u.output
+        : typeof u.outputTokens === "number" ? u.outputTokens
+          : typeof u.output_tokens === "number" ? u.output_tokens
+            : 0;
+
+    addCallToTurn(turn, {
+      usage: {
+        input,
+        output,
+        cacheRead: typeof u.cacheRead === "number" ? u.cacheRead : 0,
+        cacheWrite: typeof u.cacheWrite === "number" ? u.cacheWrite : 0,
+      },
+      model: msg.model,
+      provider: msg.provider,
+    });
+  }
+
+  return turn;
+}
+
+/**
+ * Write a turn's accumulated usage onto a span (agent turn or root).
+ */
+export function applyTurnUsageToSpan(span: Span, turn: TurnUsage): void {
+  span.setAttribute("gen_ai.usage.input_tokens", turn.input);
+  span.setAttribute("gen_ai.usage.output_tokens", turn.output);
+  span.setAttribute("gen_ai.usage.total_tokens", turn.total);
+  span.setAttribute("gen_ai.response.model", turn.model);
+  span.setAttribute("openclaw.llm.call_count", turn.calls);
+
+  if (turn.cacheRead > 0) {
+    span.setAttribute("gen_ai.usage.cache_read_tokens", turn.cacheRead);
+  }
+  if (turn.cacheWrite > 0) {
+    span.setAttribute("gen_ai.usage.cache_write_tokens", turn.cacheWrite);
+  }
+  if (typeof turn.costUsd === "number") {
+    span.setAttribute("openclaw.llm.cost_usd", turn.costUsd);
+  }
+  if (turn.costSource) {
+    span.setAttribute("openclaw.llm.cost_source", turn.costSource);
+  }
+  if (turn.costPartial) {
+    span.setAttribute("openclaw.llm.cost_partial", true);
+  }
+  if (typeof turn.estimatedCostUsd === "number") {
+    span.setAttribute("openclaw.llm.cost_estimated_usd", turn.estimatedCostUsd);
+  }
+  if (turn.contextLimit !== undefined) {
+    span.setAttribute("openclaw.context.limit", turn.contextLimit);
+  }
+  if (turn.maxContextUsed !== undefined) {
+    span.setAttribute("openclaw.context.used", turn.maxContextUsed);
+  }
+
+  if (turn.byModel.size > 0) {
+    span.setAttribute("openclaw.llm.models", [...turn.byModel.keys()]);
+    // Span attributes can't be nested — encode the per-model breakdown as JSON
+    span.setAttribute(
+      "openclaw.llm.usage_by_model",
+      JSON.stringify(Object.fromEntries(turn.byModel))
+    );
+  }
+}
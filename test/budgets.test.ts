@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { BudgetsConfig } from "../src/config.js";
+import { BudgetTracker } from "../src/budgets.js";
+
+function budgets(overrides: Partial<BudgetsConfig>): BudgetsConfig {
+  return { thresholds: [0.5, 0.8, 1], agents: {}, channels: {}, ...overrides };
+}
+
+const keys = { sessionKey: "agent:main:telegram:dm:111", agentId: "main", channel: "telegram" };
+const noon = Date.UTC(2026, 9, 19, 12);
+const nextDay = Date.UTC(2026, 9, 20, 1);
+
+describe("BudgetTracker", () => {
+  it("reports each threshold once as spend accumulates", () => {
+    const tracker = new BudgetTracker(budgets({ session: { costUsd: 1, blockTools: false } }));
+
+    expect(tracker.record(keys, 0.3, 100, noon)).toEqual([]);
+    expect(tracker.record(keys, 0.3, 100, noon).map((c) => c.threshold)).toEqual([0.5]);
+    expect(tracker.record(keys, 0.5, 100, noon).map((c) => c.threshold)).toEqual([0.8, 1]);
+    expect(tracker.record(keys, 0.5, 100, noon)).toEqual([]);
+  });
+
+  it("tracks cost and tokens of each scope separately", () => {
+    const tracker = new BudgetTracker(
+      budgets({
+        agent: { tokens: 1000, blockTools: false },
+        agents: { main: { tokens: 100, blockTools: false } },
+        day: { costUsd: 10, blockTools: false },
+      })
+    );
+
+    const crossings = tracker.record(keys, 1, 100, noon);
+    // The per-agent override replaces the default agent limit
+    expect(crossings.map((c) => [c.scope, c.metric, c.threshold])).toEqual([
+      ["agent", "tokens", 0.5],
+      ["agent", "tokens", 0.8],
+      ["agent", "tokens", 1],
+    ]);
+    expect(tracker.record({ ...keys, agentId: "other" }, 4, 500, noon).map((c) => [c.scope, c.threshold])).toEqual([
+      ["agent", 0.5],
+      ["day", 0.5],
+    ]);
+  });
+
+  it("only blocks tools for exhausted blockTools budgets", () => {
+    const tracker = new BudgetTracker(
+      budgets({ session: { costUsd: 1, blockTools: false }, day: { costUsd: 2, blockTools: true } })
+    );
+    expect(tracker.blocksTools).toBe(true);
+
+    tracker.record(keys, 1.5, 0, noon);
+    expect(tracker.exhausted(keys, noon)).toBeUndefined();
+
+    tracker.record(keys, 0.5, 0, noon);
+    expect(tracker.exhausted(keys, noon)).toMatchObject({ scope: "day", metric: "cost", used: 2, limit: 2 });
+  });
+
+  it("starts daily budgets over at midnight UTC but keeps session budgets", () => {
+    const tracker = new BudgetTracker(
+      budgets({ session: { costUsd: 1, blockTools: true }, day: { costUsd: 1, blockTools: true } })
+    );
+    tracker.record(keys, 1, 0, noon);
+    expect(tracker.exhausted({ ...keys, sessionKey: "other" }, noon)?.scope).toBe("day");
+
+    expect(tracker.exhausted({ ...keys, sessionKey: "other" }, nextDay)).toBeUndefined();
+    expect(tracker.exhausted(keys, nextDay)?.scope).toBe("session");
+  });
+
+  it("forgets a session's budget once the session ends", () => {
+    const tracker = new BudgetTracker(budgets({ session: { costUsd: 1, blockTools: true } }));
+    tracker.record(keys, 1, 0, noon);
+    expect(tracker.exhausted(keys, noon)?.scope).toBe("session");
+
+    tracker.endSession(keys.sessionKey);
+    expect(tracker.exhausted(keys, noon)).toBeUndefined();
+    expect(tracker.record(keys, 0.5, 0, noon).map((c) => c.threshold)).toEqual([0.5]);
+  });
+});
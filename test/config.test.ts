@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parseConfig } from "../src/config.js";
+
+describe("timeouts", () => {
+  it("defaults to 30 minutes per turn, an hour per request and 10 minutes per tool", () => {
+    expect(parseConfig({}).timeouts).toEqual({ turnMs: 1_800_000, requestMs: 3_600_000, toolMs: 600_000 });
+  });
+
+  it("ignores values under a second", () => {
+    expect(parseConfig({ timeouts: { turnMs: 5000, toolMs: 10 } }).timeouts).toMatchObject({
+      turnMs: 5000,
+      toolMs: 600_000,
+    });
+  });
+});
+
+describe("OTEL_* environment", () => {
+  it("fills in what the plugin config leaves unset", () => {
+    const config = parseConfig(
+      { headers: { "X-Team": "a" } },
+      {
+        OTEL_EXPORTER_OTLP_ENDPOINT: "https://collector:4317",
+        OTEL_EXPORTER_OTLP_PROTOCOL: "grpc",
+        OTEL_EXPORTER_OTLP_HEADERS: "Authorization=Api-Token%20abc,X-Team=b",
+        OTEL_EXPORTER_OTLP_TIMEOUT: "5000",
+        OTEL_RESOURCE_ATTRIBUTES: "service.name=from-attributes,deployment.environment=prod",
+      }
+    );
+
+    expect(config).toMatchObject({
+      endpoint: "https://collector:4317",
+      protocol: "grpc",
+      headers: { Authorization: "Api-Token abc", "X-Team": "a" },
+      timeoutMs: 5000,
+      serviceName: "from-attributes",
+      resourceAttributes: { "deployment.environment": "prod" },
+    });
+  });
+
+  it("lets plugin config and OTEL_SERVICE_NAME win", () => {
+    const env = {
+      OTEL_EXPORTER_OTLP_ENDPOINT: "https://collector:4318",
+      OTEL_SERVICE_NAME: "from-env",
+      OTEL_RESOURCE_ATTRIBUTES: "service.name=from-attributes",
+    };
+    expect(parseConfig({}, env).serviceName).toBe("from-env");
+    expect(parseConfig({ endpoint: "http://local:4318", serviceName: "mine" }, env)).toMatchObject({
+      endpoint: "http://local:4318",
+      serviceName: "mine",
+    });
+  });
+
+  it("reads per-signal variables into signals.<signal>", () => {
+    const config = parseConfig(
+      { signals: { logs: { endpoint: "http://logs:4318/v1/logs" } } },
+      {
+        OTEL_EXPORTER_OTLP_METRICS_PROTOCOL: "http/protobuf",
+        OTEL_EXPORTER_OTLP_METRICS_HEADERS: "X-Tenant=metrics",
+        OTEL_EXPORTER_OTLP_LOGS_ENDPOINT: "http://ignored:4318/v1/logs",
+      }
+    );
+
+    expect(config.signals.metrics).toEqual({
+      endpoint: undefined,
+      protocol: "http",
+      headers: { "X-Tenant": "metrics" },
+      timeoutMs: undefined,
+    });
+    expect(config.signals.logs.endpoint).toBe("http://logs:4318/v1/logs");
+  });
+});
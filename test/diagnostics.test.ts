@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { SpanKind } from "@opentelemetry/api";
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import { recordLlmCallSpan } from "../src/diagnostics.js";
+import type { TelemetryRuntime } from "../src/telemetry.js";
+
+function tracing() {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+  const tracer = provider.getTracer("test");
+  return { exporter, tracer, telemetry: { tracer } as unknown as TelemetryRuntime };
+}
+
+describe("recordLlmCallSpan", () => {
+  it("records one chat span per call under the agent turn", () => {
+    const { exporter, tracer, telemetry } = tracing();
+    const agentSpan = tracer.startSpan("openclaw.agent.turn");
+
+    recordLlmCallSpan(telemetry, agentSpan, {
+      provider: "anthropic",
+      model: "claude-sonnet-4",
+      costUsd: 0.012,
+      durationMs: 1500,
+      usage: { input: 1000, output: 200, total: 1200 },
+      context: { used: 1200, limit: 200000 },
+    });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("chat claude-sonnet-4");
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.parentSpanContext?.spanId).toBe(agentSpan.spanContext().spanId);
+    expect(span.attributes).toMatchObject({
+      "gen_ai.operation.name": "chat",
+      "gen_ai.request.model": "claude-sonnet-4",
+      "gen_ai.system": "anthropic",
+      "gen_ai.usage.input_tokens": 1000,
+      "gen_ai.usage.output_tokens": 200,
+      "openclaw.llm.cost_usd": 0.012,
+      "openclaw.llm.duration_ms": 1500,
+    });
+  });
+
+  it("back-dates the span by the call duration", () => {
+    const { exporter, tracer, telemetry } = tracing();
+    recordLlmCallSpan(telemetry, tracer.startSpan("turn"), { durationMs: 2000, usage: {} });
+
+    const [span] = exporter.getFinishedSpans();
+    const durationMs = span.duration[0] * 1000 + span.duration[1] / 1e6;
+    expect(durationMs).toBeCloseTo(2000, -1);
+    expect(span.name).toBe("chat unknown");
+  });
+});
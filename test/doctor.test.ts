@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { createServer, type Server } from "node:net";
+import { trace } from "@opentelemetry/api";
+import { BasicTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseConfig } from "../src/config.js";
+import { runDoctor, runExportTest, runGatewayChecks, type DoctorCheck } from "../src/doctor.js";
+
+function check(checks: DoctorCheck[], name: string): DoctorCheck | undefined {
+  return checks.find((c) => c.name === name);
+}
+
+describe("runExportTest", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "otel-doctor-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("sends one span, metric and log record through the file exporter", async () => {
+    const results = await runExportTest(parseConfig({ protocol: "file", file: { directory } }));
+
+    expect(results.map((r) => [r.signal, r.ok])).toEqual([
+      ["traces", true],
+      ["metrics", true],
+      ["logs", true],
+    ]);
+    expect(readdirSync(directory).map((f) => f.split("-")[0]).sort()).toEqual(["logs", "metrics", "traces"]);
+  });
+});
+
+describe("runDoctor", () => {
+  let server: Server;
+  let port: number;
+
+  beforeEach(async () => {
+    server = createServer((socket) => socket.destroy());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as { port: number }).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  it("flags a per-signal path in an OTLP/HTTP endpoint", async () => {
+    const checks = await runDoctor(parseConfig({ endpoint: `http://127.0.0.1:${port}/v1/traces` }));
+
+    expect(check(checks, "endpoint path")).toMatchObject({ level: "error" });
+    expect(check(checks, "endpoint path")?.message).toContain(`use http://127.0.0.1:${port}`);
+    expect(check(checks, "reachability")).toMatchObject({ level: "ok" });
+  });
+
+  it("warns about the gRPC port with OTLP/HTTP", async () => {
+    const checks = await runDoctor(parseConfig({ endpoint: "http://127.0.0.1:4317" }));
+    expect(check(checks, "port")).toMatchObject({ level: "warn" });
+  });
+
+  it("reports malformed headers", async () => {
+    const checks = await runDoctor(
+      parseConfig({
+        endpoint: `http://127.0.0.1:${port}`,
+        headers: { Authorization: "Bearer", "X-Team ": "a", "X-Empty": " " },
+      })
+    );
+
+    expect(checks.filter((c) => c.name === "headers").map((c) => c.message)).toEqual([
+      'Authorization has a scheme ("Bearer") but no credentials',
+      '"X-Team " is not a valid header name',
+      "X-Empty is empty",
+    ]);
+  });
+
+  it("warns that gRPC exporters keep the first value of a rotated secret", async () => {
+    vi.stubEnv("COLLECTOR_TOKEN", "t0ken");
+    const checks = await runDoctor(
+      parseConfig(
+        {
+          endpoint: `http://127.0.0.1:${port}`,
+          protocol: "grpc",
+          headers: { Authorization: "Bearer ${env:COLLECTOR_TOKEN}" },
+        },
+        {}
+      )
+    );
+
+    expect(checks.filter((c) => c.name === "headers").map((c) => c.level)).toEqual(["ok", "warn"]);
+    expect(check(checks, "headers")?.message).toContain("1 secret reference(s) resolved");
+  });
+});
+
+describe("runGatewayChecks", () => {
+  afterEach(() => {
+    trace.disable();
+  });
+
+  it("warns when another SDK registered the global tracer provider", () => {
+    trace.setGlobalTracerProvider(new BasicTracerProvider());
+
+    expect(check(runGatewayChecks(parseConfig({}), false), "global providers")).toMatchObject({ level: "warn" });
+    expect(check(runGatewayChecks(parseConfig({}), true), "global providers")).toMatchObject({ level: "ok" });
+  });
+});
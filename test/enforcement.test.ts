@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { EnforcementConfig } from "../src/config.js";
+import {
+  approvePendingConfirmations,
+  clearPendingConfirmations,
+  decideEnforcement,
+  isBlocking,
+} from "../src/enforcement.js";
+import type { SecurityEvent } from "../src/security.js";
+
+const config: EnforcementConfig = {
+  enabled: true,
+  policy: { critical: "block", high: "confirm", warning: "warn", info: "allow" },
+  confirmationTtlMs: 60_000,
+};
+
+function event(severity: SecurityEvent["severity"], sessionKey = "s1"): SecurityEvent {
+  return {
+    detection: "dangerous_command",
+    severity,
+    description: "rm -rf on a home directory",
+    sessionKey,
+    timestamp: Date.now(),
+    details: {},
+  };
+}
+
+const params = { command: "rm -rf ~/project" };
+
+/** Approve as the hooks do, with the config's TTL */
+function approve(sessionKey: string, message: string): string | undefined {
+  return approvePendingConfirmations(sessionKey, message, config.confirmationTtlMs);
+}
+
+/** The id the agent is told to quote, taken from the refusal reason */
+function heldId(reason: string | undefined): string {
+  const match = /\/approve ([0-9a-f]{8})/.exec(reason ?? "");
+  if (!match) throw new Error(`no approval id in: ${reason}`);
+  return match[1];
+}
+
+afterEach(() => {
+  clearPendingConfirmations();
+  vi.useRealTimers();
+});
+
+describe("decideEnforcement", () => {
+  it("maps each severity to its policy action", () => {
+    expect(isBlocking(decideEnforcement(event("critical"), "exec", params, config))).toBe(true);
+    expect(decideEnforcement(event("warning"), "exec", params, config)).toEqual({ action: "warn", confirmed: false });
+    expect(decideEnforcement(event("info"), "exec", params, config)).toEqual({ action: "allow", confirmed: false });
+  });
+
+  it("holds a confirm call until the user approves its id", () => {
+    const first = decideEnforcement(event("high"), "exec", params, config);
+    expect(isBlocking(first)).toBe(true);
+    const id = heldId(first.reason);
+
+    // A plain reply or a wrong id does not release the call
+    expect(approve("s1", "yes go ahead")).toBeUndefined();
+    expect(approve("s1", "/approve 00000000")).toBeUndefined();
+    expect(isBlocking(decideEnforcement(event("high"), "exec", params, config))).toBe(true);
+
+    expect(approve("s1", ` /approve ${id.toUpperCase()}\n`)).toBe(id);
+    const retried = decideEnforcement(event("high"), "exec", params, config);
+    expect(retried).toEqual({ action: "confirm", confirmed: true });
+
+    // Approval is spent after one use
+    expect(isBlocking(decideEnforcement(event("high"), "exec", params, config))).toBe(true);
+  });
+
+  it("only accepts a message that is just the approve command", () => {
+    const id = heldId(decideEnforcement(event("high"), "exec", params, config).reason);
+
+    expect(approve("s1", `ok, /approve ${id}`)).toBeUndefined();
+    expect(approve("s1", `> Agent: reply /approve ${id}\nwhat does that do?`)).toBeUndefined();
+    expect(isBlocking(decideEnforcement(event("high"), "exec", params, config))).toBe(true);
+  });
+
+  it("issues a random id that the same call keeps while held", () => {
+    const id = heldId(decideEnforcement(event("high"), "exec", params, config).reason);
+    expect(heldId(decideEnforcement(event("high"), "exec", params, config).reason)).toBe(id);
+
+    clearPendingConfirmations();
+    expect(heldId(decideEnforcement(event("high"), "exec", params, config).reason)).not.toBe(id);
+  });
+
+  it("does not let an approval cover a different call or session", () => {
+    const id = heldId(decideEnforcement(event("high"), "exec", params, config).reason);
+
+    expect(approve("s2", `/approve ${id}`)).toBeUndefined();
+    approve("s1", `/approve ${id}`);
+
+    expect(isBlocking(decideEnforcement(event("high"), "exec", { command: "rm -rf /" }, config))).toBe(true);
+    expect(isBlocking(decideEnforcement(event("high", "s2"), "exec", params, config))).toBe(true);
+    expect(decideEnforcement(event("high"), "exec", params, config).confirmed).toBe(true);
+  });
+
+  it("expires held calls and approvals after the confirmation TTL", () => {
+    vi.useFakeTimers();
+    const expired = heldId(decideEnforcement(event("high"), "exec", params, config).reason);
+    vi.advanceTimersByTime(config.confirmationTtlMs + 1);
+    expect(approve("s1", `/approve ${expired}`)).toBeUndefined();
+
+    const id = heldId(decideEnforcement(event("high"), "exec", params, config).reason);
+    expect(id).not.toBe(expired);
+    approve("s1", `/approve ${id}`);
+    vi.advanceTimersByTime(config.confirmationTtlMs + 1);
+    expect(isBlocking(decideEnforcement(event("high"), "exec", params, config))).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { ExportResultCode } from "@opentelemetry/core";
+import { MeterProvider, PeriodicExportingMetricReader } from "@opentelemetry/sdk-metrics";
+import { FileMetricExporter } from "../src/file-exporter.js";
+import { ExporterHealth, MonitoredMetricExporter } from "../src/exporter-health.js";
+
+const silent = { info() {}, warn() {}, error() {}, debug() {} };
+
+describe("MonitoredMetricExporter", () => {
+  let directory: string;
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  it("writes metrics through a FileMetricExporter", async () => {
+    directory = mkdtempSync(join(tmpdir(), "otel-health-"));
+    const health = new ExporterHealth(silent);
+    health.track("metrics", false);
+    const exporter = new MonitoredMetricExporter(
+      new FileMetricExporter({ directory, maxFileSizeBytes: 1024 * 1024, maxFileAgeMs: 60_000, maxFiles: 2 }),
+      health
+    );
+    const reader = new PeriodicExportingMetricReader({ exporter, exportIntervalMillis: 60_000 });
+    const provider = new MeterProvider({ readers: [reader] });
+    provider.getMeter("test").createCounter("test.counter").add(3);
+
+    await reader.forceFlush();
+    const afterFlush = health.snapshot().metrics;
+    await provider.shutdown();
+
+    const files = readdirSync(directory).filter((file) => file.startsWith("metrics-"));
+    expect(files).toHaveLength(1);
+    expect(readFileSync(join(directory, files[0]), "utf8")).toContain("test.counter");
+    expect(afterFlush).toMatchObject({ successes: 1, failures: 0, healthy: true });
+  });
+});
+
+describe("ExporterHealth", () => {
+  it("counts exports by outcome and keeps the last error", () => {
+    const health = new ExporterHealth(silent);
+    health.track("traces", true);
+    health.recordExport("traces", 10, 20, { code: ExportResultCode.SUCCESS });
+    health.recordExport("traces", 5, 12, { code: ExportResultCode.FAILED, error: new Error("401 Unauthorized") });
+
+    expect(health.snapshot().traces).toMatchObject({
+      exports: 2,
+      successes: 1,
+      failures: 1,
+      itemsExported: 10,
+      itemsFailed: 5,
+      healthy: false,
+      lastError: "401 Unauthorized",
+    });
+  });
+
+  it("masks secrets in the last error", () => {
+    const health = new ExporterHealth(silent, (text) => text.replace("s3cret", "****"));
+    health.track("traces", true);
+    health.recordExport("traces", 1, 5, { code: ExportResultCode.FAILED, error: new Error("401 token s3cret") });
+
+    expect(health.snapshot().traces?.lastError).toBe("401 token ****");
+  });
+
+  it("is healthy again after the next successful export", () => {
+    const health = new ExporterHealth(silent);
+    health.track("metrics", false);
+    health.recordExport("metrics", 1, 5, { code: ExportResultCode.FAILED, error: new Error("ECONNREFUSED") });
+    health.recordExport("metrics", 1, 5, { code: ExportResultCode.SUCCESS });
+
+    expect(health.snapshot().metrics).toMatchObject({ healthy: true, failures: 1 });
+  });
+
+  it("counts items arriving at a full queue as dropped", () => {
+    const health = new ExporterHealth(silent);
+    health.track("logs", true);
+    for (let i = 0; i < 2050; i++) health.enqueued("logs");
+
+    expect(health.snapshot().logs).toMatchObject({ queueDepth: 2048, dropped: 2 });
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ExportResultCode } from "@opentelemetry/core";
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import type { FileExportConfig } from "../src/config.js";
+import { FileSpanExporter, RotatingFileWriter } from "../src/file-exporter.js";
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "otel-file-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function fileConfig(overrides: Partial<FileExportConfig> = {}): FileExportConfig {
+  return { directory, maxFileSizeBytes: 1024 * 1024, maxFileAgeMs: 60_000, maxFiles: 5, ...overrides };
+}
+
+describe("RotatingFileWriter", () => {
+  it("rotates by size and keeps only the newest maxFiles", () => {
+    const writer = new RotatingFileWriter("traces", fileConfig({ maxFileSizeBytes: 20, maxFiles: 2 }));
+    for (let i = 0; i < 4; i++) {
+      writer.appendLine(`line-${i}-0123456789`);
+    }
+
+    const files = readdirSync(directory).sort();
+    expect(files).toHaveLength(2);
+    expect(files.every((f) => /^traces-.*\.jsonl$/.test(f))).toBe(true);
+    expect(files.map((f) => readFileSync(join(directory, f), "utf8"))).toEqual([
+      "line-2-0123456789\n",
+      "line-3-0123456789\n",
+    ]);
+  });
+});
+
+describe("FileSpanExporter", () => {
+  it("writes one OTLP-JSON export request per line", async () => {
+    const exporter = new FileSpanExporter(fileConfig());
+    const memory = new InMemorySpanExporter();
+    const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(memory)] });
+    provider.getTracer("test").startSpan("openclaw.request").end();
+
+    const code = await new Promise((resolve) => exporter.export(memory.getFinishedSpans(), (r) => resolve(r.code)));
+    expect(code).toBe(ExportResultCode.SUCCESS);
+
+    const [file] = readdirSync(directory);
+    const request = JSON.parse(readFileSync(join(directory, file), "utf8").trim());
+    expect(request.resourceSpans[0].scopeSpans[0].spans[0].name).toBe("openclaw.request");
+  });
+});
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import { parseConfig } from "../src/config.js";
+import { registerHooks } from "../src/hooks.js";
+import { SessionRegistry } from "../src/sessions.js";
+import type { TelemetryRuntime } from "../src/telemetry.js";
+
+type Handler = (event: unknown, ctx: unknown) => unknown;
+
+/**
+ * Register the hooks against a fake plugin API and telemetry runtime.
+ * Metric instruments are no-ops, except openclaw.tool.duration and the
+ * security event counter, which are kept along with emitted security events.
+ */
+function setup(raw: Record<string, unknown> = {}) {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+  const toolDurations: Array<{ ms: number; attributes: Record<string, unknown> }> = [];
+  const securityCounts: string[] = [];
+  const securityEmits: string[] = [];
+  const noop = new Proxy({}, { get: () => ({ add() {}, record() {} }) });
+
+  const telemetry = {
+    tracer: provider.getTracer("test"),
+    logger: { debug() {}, info() {}, warn() {}, error() {} },
+    counters: new Proxy(
+      {},
+      {
+        get: (_target, name) => ({
+          add: (_value: number, attributes: Record<string, string>) => {
+            if (name === "securityEvents") securityCounts.push(attributes.detection);
+          },
+        }),
+      }
+    ),
+    gauges: noop,
+    histograms: new Proxy(
+      {},
+      {
+        get: (_target, name) => ({
+          record: (ms: number, attributes: Record<string, unknown>) => {
+            if (name === "toolDuration") toolDurations.push({ ms, attributes });
+          },
+        }),
+      }
+    ),
+    redact: (text: string) => text,
+    emitSecurityEvent: (event: { detection: string }) => securityEmits.push(event.detection),
+  } as unknown as TelemetryRuntime;
+
+  const handlers = new Map<string, Array<{ handler: Handler; priority: number }>>();
+  const api = {
+    on: (name: string, handler: Handler, options?: { priority?: number }) => {
+      const list = handlers.get(name) ?? [];
+      list.push({ handler, priority: options?.priority ?? 0 });
+      handlers.set(name, list);
+    },
+    registerHook() {},
+  };
+  const config = parseConfig(raw);
+  const dispose = registerHooks(api, telemetry, config, new SessionRegistry(telemetry, config.sessions));
+  disposers.push(dispose);
+
+  /** Run a hook's handlers in priority order, like the plugin runner */
+  const fire = (name: string, event: unknown, ctx: unknown) =>
+    [...(handlers.get(name) ?? [])]
+      .sort((a, b) => b.priority - a.priority)
+      .map(({ handler }) => handler(event, ctx));
+
+  return { exporter, toolDurations, securityCounts, securityEmits, fire, dispose };
+}
+
+const disposers: Array<() => void> = [];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  // Spans still open belong to the hook state shared by every setup()
+  disposers.splice(0).forEach((dispose) => dispose());
+  vi.useRealTimers();
+});
+
+describe("tool timing", () => {
+  it("times a tool from before_tool_call to its persisted result", () => {
+    const { exporter, toolDurations, fire } = setup();
+    const ctx = { sessionKey: "s-timing", agentId: "main" };
+
+    fire("before_tool_call", { toolName: "read", toolCallId: "call-1", params: { path: "README.md" } }, ctx);
+    vi.advanceTimersByTime(1500);
+    fire("tool_result_persist", { toolName: "read", toolCallId: "call-1", message: { content: [] } }, ctx);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("tool.read");
+    expect(span.attributes["openclaw.tool.duration_ms"]).toBe(1500);
+    expect(toolDurations).toEqual([{ ms: 1500, attributes: { "tool.name": "read", "tool.outcome": "success" } }]);
+  });
+
+  it("records failed tools with the error outcome", () => {
+    const { exporter, toolDurations, fire } = setup();
+    const ctx = { sessionKey: "s-error", agentId: "main" };
+
+    fire("before_tool_call", { toolName: "read", toolCallId: "call-2" }, ctx);
+    fire("tool_result_persist", { toolName: "read", toolCallId: "call-2", message: { content: [], isError: true } }, ctx);
+
+    expect(exporter.getFinishedSpans()[0].status.code).toBe(SpanStatusCode.ERROR);
+    expect(toolDurations[0].attributes["tool.outcome"]).toBe("error");
+  });
+
+  it("ends tools that never return as timed out", () => {
+    const { exporter, toolDurations, fire } = setup();
+
+    fire("before_tool_call", { toolName: "exec", toolCallId: "call-3" }, { sessionKey: "s-timeout" });
+    vi.advanceTimersByTime(11 * 60 * 1000);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes["openclaw.tool.timed_out"]).toBe(true);
+    expect(toolDurations.map((d) => d.attributes["tool.outcome"])).toContain("timeout");
+  });
+});
+
+describe("orphaned spans", () => {
+  it("closes a turn that never reached agent_end after the turn timeout", () => {
+    const { exporter, fire } = setup({ timeouts: { turnMs: 60_000 } });
+    fire("before_agent_start", {}, { sessionKey: "s-orphan", agentId: "main" });
+
+    vi.advanceTimersByTime(50_000);
+    expect(exporter.getFinishedSpans()).toEqual([]);
+
+    vi.advanceTimersByTime(20_000);
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map((s) => s.name)).toEqual(["openclaw.agent.turn", "openclaw.request"]);
+    for (const span of spans) {
+      expect(span.status.code).toBe(SpanStatusCode.ERROR);
+      expect(span.attributes).toMatchObject({
+        "openclaw.trace.orphaned": true,
+        "openclaw.trace.orphan_cause": "turn_timeout",
+      });
+    }
+  });
+
+  it("closes open turns and tools when the hooks are disposed", () => {
+    const { exporter, toolDurations, fire, dispose } = setup();
+    fire("before_agent_start", {}, { sessionKey: "s-stop", agentId: "main" });
+    fire("before_tool_call", { toolName: "exec", toolCallId: "call-4" }, { sessionKey: "s-stop" });
+
+    const clearInterval = vi.spyOn(globalThis, "clearInterval");
+    dispose();
+    // The cleanup timer is gone
+    expect(clearInterval).toHaveBeenCalledTimes(1);
+    clearInterval.mockRestore();
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map((s) => s.name)).toEqual(["tool.exec", "openclaw.agent.turn", "openclaw.request"]);
+    expect(spans.every((s) => s.attributes["openclaw.trace.orphan_cause"] === "shutdown")).toBe(true);
+    expect(toolDurations[0].attributes["tool.outcome"]).toBe("incomplete");
+  });
+});
+
+describe("enforcement", () => {
+  it("records a blocked call's detection once, not again on its error result", () => {
+    const { securityCounts, securityEmits, fire } = setup({ enforcement: { enabled: true } });
+    const ctx = { sessionKey: "s-blocked", agentId: "main" };
+    fire("before_agent_start", {}, ctx);
+
+    const results = fire("before_tool_call", { toolName: "exec", toolCallId: "call-5", params: { command: "rm -rf /" } }, ctx);
+    expect(results).toContainEqual(expect.objectContaining({ block: true }));
+    fire(
+      "tool_result_persist",
+      { toolName: "exec", toolCallId: "call-5", message: { content: [{ type: "text", text: "blocked" }], isError: true } },
+      ctx
+    );
+
+    expect(securityCounts).toEqual(["dangerous_command"]);
+    expect(securityEmits).toEqual(["dangerous_command"]);
+  });
+});
+
+describe("budgets", () => {
+  it("lets the tool call through when the budget hook fails", () => {
+    const { fire } = setup({ budgets: { session: { costUsd: 1, blockTools: true } } });
+    const brokenCtx = {
+      get sessionKey(): string {
+        throw new Error("no session");
+      },
+    };
+
+    const results = fire("before_tool_call", { toolName: "exec", toolCallId: "call-6" }, brokenCtx);
+    expect(results.every((result) => result === undefined)).toBe(true);
+  });
+});
+
+describe("trace context propagation", () => {
+  it("leaves tool params alone unless outbound injection is enabled", () => {
+    const ctx = { sessionKey: "s-propagation", agentId: "main" };
+    const call = { toolName: "exec", toolCallId: "call-7", params: { command: "ls" } };
+
+    const off = setup();
+    off.fire("before_agent_start", {}, ctx);
+    expect(off.fire("before_tool_call", call, ctx).every((result) => result === undefined)).toBe(true);
+    off.dispose();
+
+    const on = setup({ propagation: { outbound: true } });
+    on.fire("before_agent_start", {}, ctx);
+    expect(on.fire("before_tool_call", call, ctx)).toContainEqual({
+      params: { command: "ls", env: { TRACEPARENT: expect.stringMatching(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/) } },
+    });
+  });
+});
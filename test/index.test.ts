@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { callGatewayMethod } from "../src/gateway-client.js";
+import plugin from "../index.js";
+
+vi.mock("../src/gateway-client.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/gateway-client.js")>()),
+  callGatewayMethod: vi.fn(),
+}));
+
+type Action = (...args: unknown[]) => Promise<void>;
+
+/**
+ * Register the plugin against a fake API and run its CLI registrar on a fake
+ * commander program. Returns the actions by command path ("otel", "otel traces").
+ */
+function cli(pluginConfig: Record<string, unknown> = {}): Map<string, Action> {
+  const actions = new Map<string, Action>();
+  const command = (path: string): unknown => {
+    const builder = {
+      command: (usage: string) => {
+        const name = usage.split(" ")[0];
+        return command(path ? `${path} ${name}` : name);
+      },
+      description: () => builder,
+      option: () => builder,
+      action: (action: Action) => {
+        actions.set(path, action);
+        return builder;
+      },
+    };
+    return builder;
+  };
+
+  plugin.register({
+    pluginConfig,
+    logger: { debug() {}, info() {}, warn() {}, error() {} },
+    registerGatewayMethod() {},
+    registerService() {},
+    registerTool() {},
+    registerCli: (registrar: (ctx: { program: unknown }) => void) => registrar({ program: command("") }),
+  });
+  return actions;
+}
+
+/** Run a CLI action and return what it printed */
+async function run(action: Action | undefined, ...args: unknown[]): Promise<string> {
+  const log = vi.spyOn(console, "log").mockImplementation(() => {});
+  await action?.(...args);
+  return log.mock.calls.map((call) => call.join(" ")).join("\n");
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(callGatewayMethod).mockReset();
+});
+
+describe("otel CLI", () => {
+  it("shows the gateway's exporter health and retry backlog", async () => {
+    vi.mocked(callGatewayMethod).mockResolvedValue({
+      initialized: true,
+      costTracking: true,
+      exporters: {
+        traces: { healthy: false, successes: 3, failures: 2, dropped: 1, lastError: "ECONNREFUSED", lastErrorAt: "t1" },
+      },
+      retryQueue: { batches: 4, bytes: 2048, dropped: 0 },
+    });
+
+    const output = await run(cli({ retryQueue: { enabled: true } }).get("otel"));
+
+    expect(callGatewayMethod).toHaveBeenCalledWith("otel-observability.status");
+    expect(output).toContain("Queued batches:  4 (2048 bytes, 0 dropped)");
+    expect(output).toContain("Initialized:     ✅");
+    expect(output).toContain("Export traces:   ❌ ok=3 failed=2 dropped=1");
+    expect(output).toContain("Last error: ECONNREFUSED (t1)");
+  });
+
+  it("shows whether the gateway resolved each header secret", async () => {
+    vi.mocked(callGatewayMethod).mockResolvedValue({
+      initialized: true,
+      costTracking: false,
+      headerSecrets: {
+        references: [
+          { signal: "all", header: "Authorization", value: "Bearer ${env:TOKEN}", resolved: true },
+          { signal: "traces", header: "X-Key", value: "${file:/run/key}", resolved: false, error: "ENOENT" },
+        ],
+      },
+    });
+
+    const output = await run(cli().get("otel"));
+
+    expect(output).toContain("Header secret:   ✅ Authorization (all) = Bearer ${env:TOKEN}");
+    expect(output).toContain("Header secret:   ❌ X-Key (traces) = ${file:/run/key} — ENOENT");
+  });
+
+  it("says so when the gateway is not reachable", async () => {
+    vi.mocked(callGatewayMethod).mockRejectedValue(new Error("gateway closed (1006)"));
+
+    const output = await run(cli().get("otel"));
+
+    expect(output).toContain("Gateway:         ❌ not reachable — gateway closed (1006)");
+    expect(output).not.toContain("Initialized:");
+  });
+});
+
+describe("otel traces CLI", () => {
+  const summary = {
+    traceId: "0af7651916cd43dd8448eb211c80319c",
+    sessionKey: "agent:main:telegram:1",
+    agentId: "main",
+    startTime: "2026-10-19T12:00:00.000Z",
+    durationMs: 41_000,
+    status: "error",
+    spanCount: 2,
+    turns: 1,
+    toolCalls: 1,
+    costUsd: 0.0123,
+    securityDetections: [],
+  };
+
+  it("lists the gateway's recent traces with the given filters", async () => {
+    vi.mocked(callGatewayMethod).mockResolvedValue({ traces: [summary] });
+
+    const output = await run(cli().get("otel traces"), undefined, { errors: true, minDuration: "30000", limit: "20" });
+
+    expect(callGatewayMethod).toHaveBeenCalledWith(
+      "otel-observability.traces.recent",
+      expect.objectContaining({ status: "error", minDurationMs: 30_000, limit: 20 })
+    );
+    expect(output).toContain("❌ 2026-10-19T12:00:00.000Z    41000ms  0af7651916cd43dd8448eb211c80319c  main");
+    expect(output).toContain("tools=1 $0.0123");
+  });
+
+  it("shows one trace's spans from the gateway", async () => {
+    vi.mocked(callGatewayMethod).mockResolvedValue({
+      trace: {
+        ...summary,
+        spans: [
+          {
+            spanId: "b",
+            parentSpanId: "a",
+            name: "tool.exec",
+            type: "tool",
+            startTime: "2026-10-19T12:00:01.000Z",
+            durationMs: 40_000,
+            status: "error",
+            statusMessage: "timed out",
+            attributes: {},
+          },
+          {
+            spanId: "a",
+            name: "openclaw.request",
+            type: "request",
+            startTime: "2026-10-19T12:00:00.000Z",
+            durationMs: 41_000,
+            status: "error",
+            attributes: {},
+          },
+        ],
+      },
+    });
+
+    const output = await run(cli().get("otel traces"), summary.traceId, { limit: "20" });
+
+    expect(callGatewayMethod).toHaveBeenCalledWith("otel-observability.traces.get", { traceId: summary.traceId });
+    expect(output.split("\n").slice(1)).toEqual(["  ❌ openclaw.request  41000ms", "    ❌ tool.exec  40000ms — timed out"]);
+  });
+
+  it("prints the gateway's error when traces are not recorded", async () => {
+    vi.mocked(callGatewayMethod).mockRejectedValue({ error: "Recent traces are not being recorded" });
+
+    const output = await run(cli().get("otel traces"), undefined, { limit: "20" });
+
+    expect(output).toBe("Recent traces are not being recorded");
+    expect(process.exitCode).toBe(1);
+    process.exitCode = undefined;
+  });
+});
+
+describe("otel doctor CLI", () => {
+  it("adds the gateway's own checks, or says they were skipped", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "otel-cli-"));
+    const doctor = cli({ protocol: "file", file: { directory } }).get("otel doctor");
+
+    vi.mocked(callGatewayMethod).mockResolvedValue({
+      checks: [{ name: "preload", level: "ok", message: "GenAI instrumentation active" }],
+    });
+    const output = await run(doctor);
+    expect(callGatewayMethod).toHaveBeenCalledWith("otel-observability.doctor");
+    expect(output).toContain(`directory:        ${directory} is writable`);
+    expect(output).toContain("preload:          GenAI instrumentation active");
+
+    vi.mocked(callGatewayMethod).mockRejectedValue(new Error("gateway closed (1006)"));
+    expect(await run(doctor)).toContain("gateway:          not reachable");
+
+    rmSync(directory, { recursive: true, force: true });
+  });
+});
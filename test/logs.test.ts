@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { SeverityNumber, type Logger, type LogRecord } from "@opentelemetry/api-logs";
+import { createLogBridge, emitLogRecord, emitSecurityLog } from "../src/logs.js";
+import type { SecurityEvent } from "../src/security.js";
+
+/** An OTel logger that keeps what it is given */
+function recordingLogger(): Logger & { records: LogRecord[] } {
+  const records: LogRecord[] = [];
+  return { records, emit: (record: LogRecord) => void records.push(record) };
+}
+
+describe("emitSecurityLog", () => {
+  it("maps the detection onto a structured record", () => {
+    const otelLogger = recordingLogger();
+    const event: SecurityEvent = {
+      detection: "dangerous_command",
+      severity: "high",
+      description: "Dangerous command: rm -rf",
+      sessionKey: "s1",
+      agentId: "main",
+      timestamp: 1000,
+      details: { tool: "exec" },
+    };
+
+    emitSecurityLog(otelLogger, event);
+
+    expect(otelLogger.records).toHaveLength(1);
+    const [record] = otelLogger.records;
+    expect(record.eventName).toBe("openclaw.security.event");
+    expect(record.severityNumber).toBe(SeverityNumber.ERROR);
+    expect(record.body).toBe("SECURITY: dangerous_command - Dangerous command: rm -rf");
+    expect(record.attributes).toMatchObject({
+      "security.event.detection": "dangerous_command",
+      "security.event.severity": "high",
+      "openclaw.session.key": "s1",
+      "openclaw.agent.id": "main",
+      "security.event.details": '{"tool":"exec"}',
+    });
+  });
+
+  it("logs warning detections at WARN", () => {
+    const otelLogger = recordingLogger();
+    emitSecurityLog(otelLogger, {
+      detection: "sensitive_file_access",
+      severity: "warning",
+      description: "Access to sensitive file: .env",
+      sessionKey: "s1",
+      timestamp: 1000,
+      details: {},
+    });
+    expect(otelLogger.records[0].severityText).toBe("WARN");
+    expect(otelLogger.records[0].attributes).not.toHaveProperty("openclaw.agent.id");
+  });
+});
+
+describe("emitLogRecord", () => {
+  it("never throws when the exporter side fails", () => {
+    const failing = { emit: () => { throw new Error("boom"); } } as Logger;
+    expect(() => emitLogRecord(failing, "info", "hello")).not.toThrow();
+  });
+});
+
+describe("createLogBridge", () => {
+  it("forwards info/warn/error to the base logger and to OTLP, keeping debug local", () => {
+    const otelLogger = recordingLogger();
+    const lines: string[] = [];
+    const base = {
+      debug: (m: string) => lines.push(`debug ${m}`),
+      info: (m: string) => lines.push(`info ${m}`),
+      warn: (m: string) => lines.push(`warn ${m}`),
+      error: (m: string) => lines.push(`error ${m}`),
+    };
+
+    const logger = createLogBridge(base, otelLogger);
+    logger.debug("d");
+    logger.info("i");
+    logger.warn("w");
+    logger.error("e");
+
+    expect(lines).toEqual(["debug d", "info i", "warn w", "error e"]);
+    expect(otelLogger.records.map((r) => [r.severityText, r.body])).toEqual([
+      ["INFO", "i"],
+      ["WARN", "w"],
+      ["ERROR", "e"],
+    ]);
+    expect(otelLogger.records[0].attributes).toEqual({ "openclaw.log.source": "plugin" });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { ROOT_CONTEXT, trace } from "@opentelemetry/api";
+import { OutboundCorrelator } from "../src/outbound.js";
+
+describe("OutboundCorrelator.match", () => {
+  it("links a delivery to the request whose session key names the recipient", () => {
+    const outbound = new OutboundCorrelator();
+    outbound.remember("agent:main:telegram:dm:111", "telegram", ROOT_CONTEXT, 1000);
+    outbound.remember("agent:main:telegram:dm:222", "telegram", ROOT_CONTEXT, 2000);
+
+    expect(outbound.match("telegram", ["111"], 3000)?.sessionKey).toBe("agent:main:telegram:dm:111");
+    expect(outbound.match("telegram", [undefined, "222"], 3000)?.sessionKey).toBe("agent:main:telegram:dm:222");
+  });
+
+  it("leaves the delivery unlinked when no request names the recipient", () => {
+    const outbound = new OutboundCorrelator();
+    outbound.remember("agent:main:telegram:dm:111", "telegram", ROOT_CONTEXT, 1000);
+
+    expect(outbound.match("telegram", ["333"], 2000)).toBeUndefined();
+    expect(outbound.match("telegram", ["11"], 2000)).toBeUndefined();
+    expect(outbound.match("telegram", [undefined], 2000)).toBeUndefined();
+    expect(outbound.match("slack", ["111"], 2000)).toBeUndefined();
+  });
+
+  it("forgets requests after the grace period", () => {
+    const outbound = new OutboundCorrelator();
+    outbound.remember("agent:main:telegram:dm:111", "telegram", ROOT_CONTEXT, 0);
+
+    expect(outbound.match("telegram", ["111"], 2 * 60 * 1000 + 1)).toBeUndefined();
+  });
+});
+
+describe("OutboundCorrelator deliveries", () => {
+  it("finishes deliveries in start order and abandons stale ones", () => {
+    const outbound = new OutboundCorrelator();
+    const span = trace.wrapSpanContext({ traceId: "1".repeat(32), spanId: "1".repeat(16), traceFlags: 1 });
+    outbound.begin("telegram:111", span, undefined, 0);
+    outbound.begin("telegram:111", span, undefined, 10);
+    outbound.begin("telegram:222", span, undefined, 20);
+
+    expect(outbound.finish("telegram:111")?.startedAt).toBe(0);
+    expect(outbound.takeAbandoned(2 * 60 * 1000 + 15).map((d) => d.startedAt)).toEqual([10]);
+    expect(outbound.finish("telegram:111")).toBeUndefined();
+    expect(outbound.finish("telegram:222")?.startedAt).toBe(20);
+  });
+});
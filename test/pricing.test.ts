@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { PricingConfig } from "../src/config.js";
+import { PricingCatalog, priceTurnUsage } from "../src/pricing.js";
+import { usageFromMessages } from "../src/usage.js";
+
+function catalog(overrides: Partial<PricingConfig> = {}): PricingCatalog {
+  return new PricingCatalog({ models: [], crossCheckTolerance: 0.1, ...overrides });
+}
+
+const nov2025 = Date.UTC(2025, 10, 1);
+
+describe("PricingCatalog", () => {
+  it("resolves dated snapshots and provider prefixes to the base model", () => {
+    const prices = catalog();
+    expect(prices.lookup("anthropic", "claude-sonnet-4-5-20250929", nov2025)?.model).toBe("claude-sonnet-4-5");
+    expect(prices.lookup("openrouter", "anthropic/claude-sonnet-4-5", nov2025)?.model).toBe("claude-sonnet-4-5");
+    // The longest name wins: claude-sonnet-4-5 is not claude-sonnet-4
+    expect(prices.lookup("anthropic", "claude-sonnet-4", nov2025)?.model).toBe("claude-sonnet-4");
+    expect(prices.lookup("anthropic", "unknown-model", nov2025)).toBeUndefined();
+  });
+
+  it("applies the price in effect on the call's date", () => {
+    const prices = catalog();
+    expect(prices.lookup("openai", "o3", Date.UTC(2025, 4, 1))?.input).toBe(10);
+    expect(prices.lookup("openai", "o3", nov2025)?.input).toBe(2);
+  });
+
+  it("prices every token kind and lets config override the bundled entry", () => {
+    const tokens = { input: 1_000_000, output: 100_000, cacheRead: 1_000_000, cacheWrite: 0 };
+    expect(catalog().estimate("anthropic", "claude-sonnet-4-5", tokens, nov2025)).toBeCloseTo(3 + 1.5 + 0.3);
+
+    const overridden = catalog({
+      models: [{ provider: "anthropic", model: "claude-sonnet-4-5", effectiveFrom: "2025-01-01", input: 1, output: 1 }],
+    });
+    // cacheRead falls back to the input price
+    expect(overridden.estimate("anthropic", "claude-sonnet-4-5", tokens, nov2025)).toBeCloseTo(1 + 0.1 + 1);
+  });
+
+  it("reports costs outside the tolerance as mismatches", () => {
+    const prices = catalog();
+    expect(prices.isMismatch(1.05, 1)).toBe(false);
+    expect(prices.isMismatch(1.5, 1)).toBe(true);
+    expect(prices.isMismatch(0.01, 0)).toBe(true);
+  });
+});
+
+describe("priceTurnUsage", () => {
+  it("fills in the turn cost per model", () => {
+    const turn = usageFromMessages([
+      { role: "assistant", provider: "anthropic", model: "claude-haiku-4-5", usage: { input: 1_000_000, output: 0 } },
+    ]);
+
+    expect(priceTurnUsage(turn, catalog(), nov2025)).toBe(true);
+    expect(turn.costUsd).toBeCloseTo(1);
+    expect(turn.costSource).toBe("pricing");
+    expect(turn.costPartial).toBeUndefined();
+  });
+
+  it("marks the cost partial when some models are unpriced", () => {
+    const turn = usageFromMessages([
+      { role: "assistant", provider: "anthropic", model: "claude-haiku-4-5", usage: { input: 1_000_000, output: 0 } },
+      { role: "assistant", model: "local-llama", usage: { input: 10, output: 10 } },
+    ]);
+
+    expect(priceTurnUsage(turn, catalog(), nov2025)).toBe(true);
+    expect(turn.costUsd).toBeCloseTo(1);
+    expect(turn.costPartial).toBe(true);
+    expect(turn.byModel.get("local-llama")?.costUsd).toBeUndefined();
+  });
+
+  it("leaves the turn untouched when no model is priced", () => {
+    const turn = usageFromMessages([{ role: "assistant", model: "local-llama", usage: { input: 10, output: 10 } }]);
+    expect(priceTurnUsage(turn, catalog(), nov2025)).toBe(false);
+    expect(turn.costUsd).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { PrometheusSerializer } from "@opentelemetry/exporter-prometheus";
+import { MeterProvider } from "@opentelemetry/sdk-metrics";
+import { prometheusName, prometheusUnit, startPrometheusEndpoint, translateForPrometheus } from "../src/prometheus.js";
+
+describe("prometheusName", () => {
+  it("appends the unit word unless the name already carries it", () => {
+    expect(prometheusName("openclaw.tool.duration", "ms")).toBe("openclaw.tool.duration_milliseconds");
+    expect(prometheusName("openclaw.gateway.uptime_seconds", "s")).toBe("openclaw.gateway.uptime_seconds");
+    expect(prometheusName("openclaw.tool.calls", "1")).toBe("openclaw.tool.calls");
+    expect(prometheusName("openclaw.tokens", "{token}")).toBe("openclaw.tokens");
+  });
+
+  it("maps UCUM units to Prometheus words", () => {
+    expect(prometheusUnit("By")).toBe("bytes");
+    expect(prometheusUnit("USD")).toBe("usd");
+    expect(prometheusUnit(undefined)).toBeUndefined();
+  });
+});
+
+describe("translateForPrometheus", () => {
+  it("renames metrics and drops heartbeat points", async () => {
+    const endpoint = startPrometheusEndpoint({ enabled: true, host: "127.0.0.1", port: 0, endpoint: "/metrics" }, {});
+    try {
+      const meter = new MeterProvider({ readers: [endpoint.reader] }).getMeter("test");
+      const calls = meter.createCounter("openclaw.tool.calls", { unit: "1" });
+      calls.add(2, { tool: "exec" });
+      calls.add(0, { "openclaw.idle": true });
+      meter.createHistogram("openclaw.idle.only", { unit: "ms" }).record(0, { "openclaw.idle": true });
+
+      const { resourceMetrics } = await endpoint.reader.collect();
+      const text = new PrometheusSerializer().serialize(translateForPrometheus(resourceMetrics));
+
+      expect(text).toContain('openclaw_tool_calls_total{tool="exec"} 2');
+      expect(text).not.toContain("openclaw_idle");
+    } finally {
+      await endpoint.close();
+    }
+  });
+});
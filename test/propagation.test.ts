@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { trace } from "@opentelemetry/api";
+import { contextEnv, extractContext, findCarrier, InboundContextStore, sessionKeyHasId } from "../src/propagation.js";
+
+function remoteContext(traceId: string) {
+  const ctx = extractContext({ traceparent: `00-${traceId}-00f067aa0ba902b7-01` });
+  if (!ctx) throw new Error("invalid traceparent");
+  return ctx;
+}
+
+const traceA = "4bf92f3577b34da6a3ce929d0e0e4736";
+const traceB = "0af7651916cd43dd8448eb211c80319c";
+
+function claimedTraceId(store: InboundContextStore, channel: string, sessionKey: string, now?: number) {
+  const ctx = store.claim(channel, sessionKey, now);
+  return ctx ? trace.getSpanContext(ctx)?.traceId : undefined;
+}
+
+describe("findCarrier", () => {
+  it("finds a traceparent in nested headers, whatever its casing", () => {
+    const traceparent = `00-${traceA}-00f067aa0ba902b7-01`;
+    expect(findCarrier({}, { params: { headers: { TraceParent: traceparent, other: "x" } } })).toEqual({ traceparent });
+    expect(findCarrier({ tracestate: "a=1" })).toBeUndefined();
+  });
+});
+
+describe("extractContext", () => {
+  it("rejects a malformed traceparent", () => {
+    expect(extractContext({ traceparent: "00-nope-01" })).toBeUndefined();
+  });
+
+  it("round-trips into the env carrier", () => {
+    expect(contextEnv(remoteContext(traceA))).toEqual({ TRACEPARENT: `00-${traceA}-00f067aa0ba902b7-01` });
+  });
+});
+
+describe("sessionKeyHasId", () => {
+  it("matches the whole key or its trailing segments only", () => {
+    expect(sessionKeyHasId("U1", "U1")).toBe(true);
+    expect(sessionKeyHasId("agent:main:slack:channel:C42", "C42")).toBe(true);
+    expect(sessionKeyHasId("agent:main:slack:channel:C42", "channel:C42")).toBe(true);
+    expect(sessionKeyHasId("agent:main:slack:channel:C42", "main")).toBe(false);
+    expect(sessionKeyHasId("agent:main:slack:channel:C42", "slack")).toBe(false);
+  });
+});
+
+describe("InboundContextStore", () => {
+  it("claims the context whose sender is named in the session key", () => {
+    const store = new InboundContextStore();
+    store.park("telegram", ["111"], remoteContext(traceA));
+    store.park("telegram", ["222"], remoteContext(traceB));
+
+    expect(claimedTraceId(store, "telegram", "agent:main:telegram:dm:222")).toBe(traceB);
+    expect(claimedTraceId(store, "telegram", "agent:main:telegram:dm:111")).toBe(traceA);
+  });
+
+  it("matches a conversation id as well as the sender", () => {
+    const store = new InboundContextStore();
+    store.park("slack", ["U1", "C42"], remoteContext(traceA));
+
+    expect(claimedTraceId(store, "slack", "agent:main:slack:channel:C42")).toBe(traceA);
+  });
+
+  it("starts a fresh root instead of taking another user's context", () => {
+    const store = new InboundContextStore();
+    store.park("telegram", ["111"], remoteContext(traceA));
+
+    expect(claimedTraceId(store, "telegram", "agent:main:telegram:dm:222")).toBeUndefined();
+    // A partial id is not a match either, nor one in the middle of the key
+    expect(claimedTraceId(store, "telegram", "agent:main:telegram:dm:1112")).toBeUndefined();
+    expect(claimedTraceId(store, "telegram", "agent:111:telegram:dm:222")).toBeUndefined();
+    expect(claimedTraceId(store, "discord", "agent:main:discord:dm:111")).toBeUndefined();
+    // Still parked for its own turn
+    expect(claimedTraceId(store, "telegram", "agent:main:telegram:dm:111")).toBe(traceA);
+  });
+
+  it("drops contexts whose turn never came", () => {
+    const store = new InboundContextStore();
+    store.park("telegram", ["111"], remoteContext(traceA), 0);
+
+    expect(claimedTraceId(store, "telegram", "agent:main:telegram:dm:111", 61_000)).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { ROOT_CONTEXT, SpanStatusCode, trace, type Tracer } from "@opentelemetry/api";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import type { RecentTracesConfig } from "../src/config.js";
+import { parseTraceFilter, RecentTraceBuffer } from "../src/recent-traces.js";
+
+function recording(overrides: Partial<RecentTracesConfig> = {}): { buffer: RecentTraceBuffer; tracer: Tracer } {
+  const buffer = new RecentTraceBuffer({ enabled: true, maxTraces: 10, maxSpansPerTrace: 50, ...overrides });
+  const provider = new NodeTracerProvider({ spanProcessors: [buffer] });
+  return { buffer, tracer: provider.getTracer("test") };
+}
+
+/** A request with one agent turn and the given tool calls, ended child first like the hooks do */
+function request(
+  tracer: Tracer,
+  sessionKey: string,
+  tools: Array<{ name: string; error?: boolean; detection?: string }> = []
+): string {
+  const root = tracer.startSpan("openclaw.request", { attributes: { "openclaw.session.key": sessionKey } });
+  const rootContext = trace.setSpan(ROOT_CONTEXT, root);
+  const turn = tracer.startSpan(
+    "openclaw.agent.turn",
+    { attributes: { "openclaw.agent.id": "main", "gen_ai.usage.total_tokens": 120, "openclaw.llm.cost_usd": 0.01 } },
+    rootContext
+  );
+  const turnContext = trace.setSpan(rootContext, turn);
+  for (const tool of tools) {
+    const span = tracer.startSpan(`tool.${tool.name}`, {}, turnContext);
+    if (tool.detection) span.setAttribute("security.event.detection", tool.detection);
+    if (tool.error) span.setStatus({ code: SpanStatusCode.ERROR });
+    span.end();
+  }
+  tracer.startSpan("internal.detail", {}, turnContext).end();
+  turn.end();
+  root.end();
+  return root.spanContext().traceId;
+}
+
+describe("RecentTraceBuffer", () => {
+  it("summarizes each finished request trace", () => {
+    const { buffer, tracer } = recording();
+    const traceId = request(tracer, "s1", [{ name: "read" }, { name: "exec", detection: "dangerous_command" }]);
+
+    expect(buffer.recent()).toEqual([
+      expect.objectContaining({
+        traceId,
+        sessionKey: "s1",
+        agentId: "main",
+        status: "ok",
+        spanCount: 4,
+        turns: 1,
+        toolCalls: 2,
+        tokens: 120,
+        costUsd: 0.01,
+        securityDetections: ["dangerous_command"],
+      }),
+    ]);
+    // Only request, turn, tool and LLM spans are kept
+    expect(buffer.get(traceId)?.spans.map((s) => s.name).sort()).toEqual([
+      "openclaw.agent.turn",
+      "openclaw.request",
+      "tool.exec",
+      "tool.read",
+    ]);
+  });
+
+  it("filters newest first and evicts the oldest traces", () => {
+    const { buffer, tracer } = recording({ maxTraces: 2 });
+    const first = request(tracer, "s1");
+    request(tracer, "s2", [{ name: "exec", error: true }]);
+    request(tracer, "s1");
+
+    expect(buffer.size).toBe(2);
+    expect(buffer.get(first)).toBeUndefined();
+    expect(buffer.recent().map((t) => t.sessionKey)).toEqual(["s1", "s2"]);
+    expect(buffer.recent({ status: "error" }).map((t) => t.sessionKey)).toEqual(["s2"]);
+    expect(buffer.recent({ sessionKey: "s1", limit: 5 })).toHaveLength(1);
+  });
+
+  it("keeps the root when a trace has more spans than it may keep", () => {
+    const { buffer, tracer } = recording({ maxSpansPerTrace: 3 });
+    const traceId = request(tracer, "s1", [{ name: "a" }, { name: "b" }, { name: "c" }]);
+
+    const kept = buffer.get(traceId);
+    expect(kept?.spans).toHaveLength(3);
+    expect(kept?.spans.some((s) => s.type === "request")).toBe(true);
+    expect(kept?.spanCount).toBe(5);
+  });
+});
+
+describe("parseTraceFilter", () => {
+  it("accepts CLI strings and drops unknown values", () => {
+    expect(parseTraceFilter({ limit: "5", minDurationMs: "2000", status: "slow", sessionKey: "" })).toEqual({
+      sessionKey: undefined,
+      agentId: undefined,
+      status: undefined,
+      minDurationMs: 2000,
+      security: undefined,
+      limit: 5,
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import {
+  AggregationTemporality,
+  InstrumentType,
+  type PushMetricExporter,
+  type ResourceMetrics,
+} from "@opentelemetry/sdk-metrics";
+import type { RetryQueueConfig } from "../src/config.js";
+import { DiskRetryQueue, RetryingMetricExporter } from "../src/retry-queue.js";
+
+const silent = { info() {}, warn() {}, error() {}, debug() {} };
+
+const targets = {
+  urls: { traces: "http://collector/v1/traces", metrics: "http://collector/v1/metrics", logs: "http://collector/v1/logs" },
+  headers: { traces: {}, metrics: { Authorization: "Bearer t" }, logs: {} },
+};
+
+/** A metric exporter without selectAggregationTemporality, failing every export */
+function failingExporter(): PushMetricExporter {
+  return {
+    export: (_metrics: ResourceMetrics, done: (result: ExportResult) => void) =>
+      done({ code: ExportResultCode.FAILED, error: new Error("ECONNREFUSED") }),
+    shutdown: async () => {},
+    forceFlush: async () => {},
+  };
+}
+
+const metrics = { resource: { attributes: {} }, scopeMetrics: [] } as unknown as ResourceMetrics;
+
+describe("DiskRetryQueue", () => {
+  let config: RetryQueueConfig;
+  let queue: DiskRetryQueue;
+
+  beforeEach(() => {
+    config = {
+      enabled: true,
+      directory: mkdtempSync(join(tmpdir(), "otel-queue-")),
+      maxSizeBytes: 1024 * 1024,
+      maxAgeMs: 60_000,
+      initialBackoffMs: 60_000,
+      maxBackoffMs: 60_000,
+    };
+    queue = new DiskRetryQueue(config, targets, silent);
+  });
+
+  afterEach(() => {
+    queue.stop();
+    vi.unstubAllGlobals();
+    rmSync(config.directory, { recursive: true, force: true });
+  });
+
+  it("persists a failed batch and reports success to the SDK", () => {
+    const exporter = new RetryingMetricExporter(failingExporter(), queue);
+    let result: ExportResult | undefined;
+    exporter.export(metrics, (r) => (result = r));
+
+    expect(result?.code).toBe(ExportResultCode.SUCCESS);
+    expect(readdirSync(config.directory)).toEqual([expect.stringMatching(/^\d{15}-0000-metrics\.json$/)]);
+    expect(queue.status()).toMatchObject({ batches: 1, bySignal: { metrics: 1 } });
+  });
+
+  it("falls back to cumulative temporality when the inner exporter has no preference", () => {
+    const exporter = new RetryingMetricExporter(failingExporter(), queue);
+    expect(exporter.selectAggregationTemporality(InstrumentType.COUNTER)).toBe(AggregationTemporality.CUMULATIVE);
+  });
+
+  it("replays queued batches with the signal's headers", async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+    queue.enqueue("metrics", new TextEncoder().encode("{}"));
+
+    await queue.drain();
+
+    expect(fetch).toHaveBeenCalledWith(
+      "http://collector/v1/metrics",
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: "Bearer t" }) })
+    );
+    expect(queue.status()).toMatchObject({ batches: 0, replayed: 1 });
+    expect(readdirSync(config.directory)).toEqual([]);
+  });
+
+  it("drops a batch the collector rejects and keeps one it could not take", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 400 })));
+    queue.enqueue("traces", new TextEncoder().encode("{}"));
+    await queue.drain();
+    expect(queue.status()).toMatchObject({ batches: 0, dropped: 1 });
+
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 503 })));
+    queue.enqueue("traces", new TextEncoder().encode("{}"));
+    await queue.drain();
+    expect(queue.status()).toMatchObject({ batches: 1, lastError: "HTTP 503 replaying traces" });
+  });
+
+  it("picks up batches left by a previous run", () => {
+    queue.enqueue("logs", new TextEncoder().encode("{}"));
+    queue.stop();
+
+    const restarted = new DiskRetryQueue(config, targets, silent);
+    restarted.stop();
+    expect(restarted.status()).toMatchObject({ batches: 1, bySignal: { logs: 1 } });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { ROOT_CONTEXT, SpanStatusCode, trace, TraceFlags, type Tracer } from "@opentelemetry/api";
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SamplingDecision,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import type { SamplingConfig } from "../src/config.js";
+import { createSampler, TailSamplingSpanProcessor } from "../src/sampling.js";
+
+const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+function sampling(overrides: Partial<SamplingConfig>): SamplingConfig {
+  return { mode: "tail", ratio: 0, keepErrors: true, keepSecurityEvents: true, maxBufferedTraces: 100, ...overrides };
+}
+
+function tailTracing(config: SamplingConfig): { tracer: Tracer; exported: () => string[] } {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({
+    spanProcessors: [new TailSamplingSpanProcessor(new SimpleSpanProcessor(exporter), config)],
+  });
+  return { tracer: provider.getTracer("test"), exported: () => exporter.getFinishedSpans().map((s) => s.name) };
+}
+
+/** A request root with one tool child, ended child first like agent_end does */
+function request(tracer: Tracer, childAttributes: Record<string, unknown> = {}, childError = false): void {
+  const root = tracer.startSpan("openclaw.request");
+  const child = tracer.startSpan("tool.exec", { attributes: childAttributes as any }, trace.setSpan(ROOT_CONTEXT, root));
+  if (childError) child.setStatus({ code: SpanStatusCode.ERROR });
+  child.end();
+  root.end();
+}
+
+describe("createSampler", () => {
+  it("applies the ratio to openclaw.request roots only", () => {
+    const sampler = createSampler(sampling({ mode: "ratio", ratio: 0 }));
+
+    expect(sampler.shouldSample(ROOT_CONTEXT, traceId, "openclaw.request", 0, {}, []).decision).toBe(
+      SamplingDecision.NOT_RECORD
+    );
+    expect(sampler.shouldSample(ROOT_CONTEXT, traceId, "gateway.startup", 0, {}, []).decision).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED
+    );
+  });
+
+  it("samples requests under an unsampled inbound traceparent at the ratio", () => {
+    const unsampledCaller = trace.setSpanContext(ROOT_CONTEXT, {
+      traceId,
+      spanId: "00f067aa0ba902b7",
+      traceFlags: TraceFlags.NONE,
+      isRemote: true,
+    });
+
+    const keepAll = createSampler(sampling({ mode: "ratio", ratio: 1 }));
+    expect(keepAll.shouldSample(unsampledCaller, traceId, "openclaw.request", 0, {}, []).decision).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED
+    );
+    const dropAll = createSampler(sampling({ mode: "ratio", ratio: 0 }));
+    expect(dropAll.shouldSample(unsampledCaller, traceId, "openclaw.request", 0, {}, []).decision).toBe(
+      SamplingDecision.NOT_RECORD
+    );
+  });
+
+  it("records everything outside ratio mode", () => {
+    const sampler = createSampler(sampling({ mode: "tail", ratio: 0 }));
+    expect(sampler.shouldSample(ROOT_CONTEXT, traceId, "openclaw.request", 0, {}, []).decision).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED
+    );
+  });
+});
+
+describe("TailSamplingSpanProcessor", () => {
+  it("drops uninteresting traces at ratio 0 and keeps them at ratio 1", () => {
+    const dropping = tailTracing(sampling({ ratio: 0 }));
+    request(dropping.tracer);
+    expect(dropping.exported()).toEqual([]);
+
+    const keeping = tailTracing(sampling({ ratio: 1 }));
+    request(keeping.tracer);
+    expect(keeping.exported()).toEqual(["tool.exec", "openclaw.request"]);
+  });
+
+  it("applies the ratio to request traces only", () => {
+    const { tracer, exported } = tailTracing(sampling({ ratio: 0 }));
+    const startup = tracer.startSpan("gateway.startup");
+    tracer.startSpan("gateway.plugin.load", {}, trace.setSpan(ROOT_CONTEXT, startup)).end();
+    startup.end();
+    request(tracer);
+
+    expect(exported()).toEqual(["gateway.plugin.load", "gateway.startup"]);
+  });
+
+  it("always keeps traces with an error or a security detection", () => {
+    const { tracer, exported } = tailTracing(sampling({ ratio: 0 }));
+    request(tracer, {}, true);
+    request(tracer, { "security.event.detected": true });
+
+    expect(exported()).toEqual(["tool.exec", "openclaw.request", "tool.exec", "openclaw.request"]);
+  });
+
+  it("keeps traces over the cost threshold", () => {
+    const { tracer, exported } = tailTracing(sampling({ ratio: 0, costThresholdUsd: 0.5 }));
+    request(tracer, { "openclaw.llm.cost_usd": 0.1 });
+    request(tracer, { "openclaw.llm.cost_usd": 0.75 });
+
+    expect(exported()).toEqual(["tool.exec", "openclaw.request"]);
+  });
+
+  it("applies a trace's decision to spans that end after its root", () => {
+    const { tracer, exported } = tailTracing(sampling({ ratio: 0 }));
+    const root = tracer.startSpan("openclaw.request", { attributes: { "security.event.detected": true } });
+    const late = tracer.startSpan("tool.exec", {}, trace.setSpan(ROOT_CONTEXT, root));
+    root.end();
+    late.end();
+
+    expect(exported()).toEqual(["openclaw.request", "tool.exec"]);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HeaderSecrets, maskHeaders, resolveHeaders } from "../src/secrets.js";
+
+const silent = { info() {}, warn() {}, error() {}, debug() {} };
+
+let directory: string;
+let tokenFile: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "otel-secrets-"));
+  tokenFile = join(directory, "token");
+  writeFileSync(tokenFile, "file-token-1\n");
+  vi.stubEnv("OTEL_TEST_TOKEN", "env-token");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("resolveHeaders", () => {
+  it("replaces env and file references and collects the secrets", () => {
+    const secrets = new Set<string>();
+    const headers = resolveHeaders(
+      { Authorization: "Api-Token ${env:OTEL_TEST_TOKEN}", "X-Key": `\${file:${tokenFile}}`, "X-Team": "core" },
+      secrets
+    );
+
+    expect(headers).toEqual({ Authorization: "Api-Token env-token", "X-Key": "file-token-1", "X-Team": "core" });
+    expect([...secrets]).toEqual(["env-token", "file-token-1"]);
+  });
+
+  it("fails on a reference that cannot be resolved", () => {
+    expect(() => resolveHeaders({ Authorization: "${env:OTEL_TEST_MISSING}" })).toThrow(/OTEL_TEST_MISSING is not set/);
+    expect(() => resolveHeaders({ Authorization: "${file:/nonexistent/token}" })).toThrow(/cannot read/);
+  });
+});
+
+describe("maskHeaders", () => {
+  it("shows references as configured and masks literal values", () => {
+    expect(maskHeaders({ Authorization: "Bearer ${env:OTEL_TEST_TOKEN}", "X-Key": "literal" })).toEqual({
+      Authorization: "Bearer ${env:OTEL_TEST_TOKEN}",
+      "X-Key": "****",
+    });
+  });
+});
+
+describe("HeaderSecrets", () => {
+  it("picks up a rotated token file in place", () => {
+    const secrets = new HeaderSecrets({ refreshIntervalMs: 0 }, silent);
+    const live = secrets.track("traces", { Authorization: `Bearer \${file:${tokenFile}}` });
+    expect(live.Authorization).toBe("Bearer file-token-1");
+
+    writeFileSync(tokenFile, "file-token-2");
+    secrets.refresh(Date.UTC(2026, 9, 19));
+
+    expect(live.Authorization).toBe("Bearer file-token-2");
+    expect(secrets.status()).toEqual({
+      references: [
+        { signal: "traces", header: "Authorization", value: `Bearer \${file:${tokenFile}}`, resolved: true, error: undefined },
+      ],
+      lastRotationAt: "2026-10-19T00:00:00.000Z",
+    });
+    // Old and new values are both masked
+    expect(secrets.mask("401 for file-token-1 and file-token-2")).toBe("401 for **** and ****");
+  });
+
+  it("keeps the previous value when a rotation fails", () => {
+    const secrets = new HeaderSecrets({ refreshIntervalMs: 0 }, silent);
+    const live = secrets.track("metrics", { Authorization: `\${file:${tokenFile}}` });
+
+    rmSync(tokenFile);
+    secrets.refresh();
+
+    expect(live.Authorization).toBe("file-token-1");
+    expect(secrets.status().references[0]).toMatchObject({ resolved: true, error: expect.stringMatching(/cannot read/) });
+  });
+
+  it("leaves out a header whose reference never resolved", () => {
+    const secrets = new HeaderSecrets({ refreshIntervalMs: 0 }, silent);
+    const live = secrets.track("logs", { Authorization: "${env:OTEL_TEST_MISSING}", "X-Team": "core" });
+
+    expect(live).toEqual({ "X-Team": "core" });
+    expect(secrets.status().references[0]).toMatchObject({ resolved: false });
+  });
+});
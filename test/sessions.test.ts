@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import { SessionRegistry } from "../src/sessions.js";
+import type { TelemetryRuntime } from "../src/telemetry.js";
+
+const idleTimeoutMs = 60_000;
+
+/** Just the instruments the registry touches; tracks the active-sessions gauge */
+function fakeTelemetry() {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+  const state = { active: 0, ended: [] as string[] };
+  const telemetry = {
+    tracer: provider.getTracer("test"),
+    logger: { debug() {} },
+    gauges: { activeSessions: { add: (value: number) => (state.active += value) } },
+    histograms: {
+      sessionDuration: {
+        record: (_ms: number, attrs: Record<string, string>) => state.ended.push(attrs["openclaw.session.end_reason"]),
+      },
+    },
+  } as unknown as TelemetryRuntime;
+  return { telemetry, state, exporter };
+}
+
+describe("SessionRegistry", () => {
+  it("opens a session on its first turn only", () => {
+    const { telemetry, state } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+    sessions.touch("s1", "main", "telegram", 10);
+    sessions.touch("s2", "main", "slack", 20);
+
+    expect(state.active).toBe(2);
+    expect(sessions.list().map((s) => s.sessionKey)).toEqual(["s1", "s2"]);
+  });
+
+  it("ends a session idle past the timeout, at its last activity", () => {
+    const { telemetry, state, exporter } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+    sessions.recordTurn("s1", 100, 0.01, 1000);
+
+    expect(sessions.sweep(1000 + idleTimeoutMs)).toEqual([]);
+    expect(state.active).toBe(1);
+
+    expect(sessions.sweep(1001 + idleTimeoutMs)).toEqual(["s1"]);
+    expect(state).toEqual({ active: 0, ended: ["idle"] });
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("openclaw.session");
+    expect(span.attributes).toMatchObject({
+      "openclaw.session.turns": 1,
+      "openclaw.session.duration_ms": 1000,
+      "openclaw.session.end_reason": "idle",
+      "gen_ai.usage.total_tokens": 100,
+      "openclaw.llm.cost_usd": 0.01,
+    });
+  });
+
+  it("ends a session when the user starts over", () => {
+    const { telemetry, state } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+
+    sessions.end("s1", "reset", 500);
+    sessions.end("s1", "reset", 600);
+    expect(state).toEqual({ active: 0, ended: ["reset"] });
+    expect(sessions.get("s1")).toBeUndefined();
+  });
+
+  it("never ends a session while its turn is running", () => {
+    const { telemetry, state } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+
+    expect(sessions.sweep(10 * idleTimeoutMs)).toEqual([]);
+    expect(state.active).toBe(1);
+
+    // Once the turn is over the idle clock starts from its end
+    sessions.recordTurn("s1", 100, 0.01, 10 * idleTimeoutMs);
+    expect(sessions.sweep(11 * idleTimeoutMs)).toEqual([]);
+    expect(sessions.sweep(11 * idleTimeoutMs + 1)).toEqual(["s1"]);
+  });
+
+  it("counts tool calls as activity", () => {
+    const { telemetry } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+    sessions.recordTurn("s1", 0, undefined, 0);
+    sessions.recordToolCall("s1", "exec", idleTimeoutMs);
+
+    expect(sessions.sweep(idleTimeoutMs + 1)).toEqual([]);
+  });
+
+  it("lets an abandoned turn's session go idle", () => {
+    const { telemetry } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+    sessions.endTurn("s1", 5000);
+
+    expect(sessions.sweep(5001 + idleTimeoutMs)).toEqual(["s1"]);
+  });
+
+  it("ends every open session on shutdown", () => {
+    const { telemetry, state } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+    sessions.touch("s2", "main", "slack", 0);
+
+    sessions.endAll(1000);
+    expect(state).toEqual({ active: 0, ended: ["shutdown", "shutdown"] });
+    expect(sessions.list()).toEqual([]);
+  });
+});
+
+describe("SessionRegistry usage", () => {
+  it("keeps tool calls, context usage and recent detections per session", () => {
+    const { telemetry } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    sessions.touch("s1", "main", "telegram", 0);
+    sessions.recordToolCall("s1", "exec", 10);
+    sessions.recordToolCall("s1", "exec", 20);
+    sessions.recordToolCall("s1", "read", 30);
+    sessions.recordContext("s1", 50_000, 200_000);
+    for (let i = 0; i < 12; i++) {
+      sessions.recordDetection({
+        detection: i === 11 ? "secret_exposure" : "dangerous_command",
+        severity: "high",
+        description: "",
+        sessionKey: "s1",
+        timestamp: i,
+        details: {},
+      });
+    }
+
+    const session = sessions.get("s1");
+    expect(session).toMatchObject({ toolCalls: { exec: 2, read: 1 }, contextUsed: 50_000, contextLimit: 200_000 });
+    expect(session?.detections).toHaveLength(10);
+    expect(session?.detections.at(-1)).toMatchObject({ detection: "secret_exposure", timestamp: 11 });
+  });
+
+  it("totals an agent's usage per UTC day", () => {
+    const { telemetry } = fakeTelemetry();
+    const sessions = new SessionRegistry(telemetry, { idleTimeoutMs });
+    const day = Date.UTC(2026, 9, 19, 12);
+    sessions.touch("s1", "main", "telegram", day);
+    sessions.touch("s2", "main", "slack", day);
+    sessions.recordTurn("s1", 100, 0.01, day);
+    sessions.recordTurn("s2", 50, 0.02, day);
+    sessions.recordToolCall("s2", "exec", day);
+
+    expect(sessions.agentUsage("main", day)).toMatchObject({ date: "2026-10-19", turns: 2, tokens: 150, toolCalls: 1 });
+    expect(sessions.agentUsage("main", day).costUsd).toBeCloseTo(0.03);
+    expect(sessions.agentUsage("main", Date.UTC(2026, 9, 20, 1))).toMatchObject({ turns: 0, tokens: 0 });
+  });
+});
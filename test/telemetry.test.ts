@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Server, ServerCredentials, type ServiceDefinition } from "@grpc/grpc-js";
+import type { ExportResult } from "@opentelemetry/core";
+import { parseConfig } from "../src/config.js";
+import { createSpanExporter, exportTargets, signalExport } from "../src/telemetry.js";
+
+const raw = (b: Buffer) => b;
+
+/** A bare OTLP/gRPC trace service that records each call's metadata */
+const traceService = {
+  Export: {
+    path: "/opentelemetry.proto.collector.trace.v1.TraceService/Export",
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: raw,
+    requestDeserialize: raw,
+    responseSerialize: raw,
+    responseDeserialize: raw,
+  },
+} as ServiceDefinition;
+
+let server: Server | undefined;
+
+afterEach(() => {
+  server?.forceShutdown();
+  server = undefined;
+  vi.unstubAllEnvs();
+});
+
+describe("signalExport", () => {
+  it("appends /v1/<signal> to the top-level endpoint and uses per-signal endpoints as-is", () => {
+    const config = parseConfig(
+      {
+        endpoint: "http://collector:4318/",
+        signals: { metrics: { endpoint: "http://prometheus:9090/api/v1/otlp/v1/metrics" } },
+      },
+      {}
+    );
+
+    expect(exportTargets(config)).toEqual({
+      traces: "http://collector:4318/v1/traces",
+      metrics: "http://prometheus:9090/api/v1/otlp/v1/metrics",
+      logs: "http://collector:4318/v1/logs",
+    });
+  });
+
+  it("merges per-signal headers, protocol and timeout over the top-level ones", () => {
+    const config = parseConfig(
+      {
+        endpoint: "http://collector:4317",
+        headers: { Authorization: "Bearer t", "X-Scope-OrgID": "all" },
+        timeoutMs: 10_000,
+        signals: { logs: { protocol: "grpc", headers: { "X-Scope-OrgID": "logs" }, timeoutMs: 2000 } },
+      },
+      {}
+    );
+
+    expect(signalExport(config, "logs")).toEqual({
+      protocol: "grpc",
+      target: "http://collector:4317",
+      headers: { Authorization: "Bearer t", "X-Scope-OrgID": "logs" },
+      timeoutMs: 2000,
+    });
+    expect(signalExport(config, "traces")).toMatchObject({ protocol: "http", timeoutMs: 10_000 });
+  });
+});
+
+describe("createSpanExporter", () => {
+  it("sends headers as gRPC call metadata", async () => {
+    const received: Array<Record<string, unknown>> = [];
+    server = new Server();
+    server.addService(traceService, {
+      Export: (call: any, done: any) => {
+        received.push(call.metadata.getMap());
+        done(null, Buffer.alloc(0));
+      },
+    });
+    const port = await new Promise<number>((resolve, reject) =>
+      server!.bindAsync("127.0.0.1:0", ServerCredentials.createInsecure(), (err, bound) =>
+        err ? reject(err) : resolve(bound)
+      )
+    );
+
+    vi.stubEnv("COLLECTOR_TOKEN", "t0ken");
+    const config = parseConfig(
+      {
+        endpoint: `http://127.0.0.1:${port}`,
+        protocol: "grpc",
+        headers: { Authorization: "Bearer ${env:COLLECTOR_TOKEN}", "X-Scope-OrgID": "tenant-1" },
+      },
+      {}
+    );
+    const exporter = createSpanExporter(config);
+    await new Promise<ExportResult>((resolve) => exporter.export([], resolve));
+    await exporter.shutdown();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ authorization: "Bearer t0ken", "x-scope-orgid": "tenant-1" });
+  });
+});
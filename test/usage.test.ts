@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  addCallToTurn,
+  createTurnUsage,
+  recordTurnUsage,
+  startTurnUsage,
+  takeTurnUsage,
+  usageFromMessages,
+} from "../src/usage.js";
+
+describe("addCallToTurn", () => {
+  it("sums every call of a turn, with a per-model breakdown", () => {
+    const turn = createTurnUsage();
+    addCallToTurn(turn, {
+      provider: "anthropic",
+      model: "claude-sonnet-4",
+      costUsd: 0.01,
+      usage: { input: 1000, output: 100, cacheRead: 500 },
+      context: { used: 1600, limit: 200000 },
+    });
+    addCallToTurn(turn, {
+      provider: "anthropic",
+      model: "claude-haiku-4",
+      costUsd: 0.002,
+      usage: { input: 300, output: 50, total: 350 },
+      context: { used: 900 },
+    });
+
+    expect(turn).toMatchObject({
+      calls: 2,
+      input: 1300,
+      output: 150,
+      cacheRead: 500,
+      total: 1950,
+      maxContextUsed: 1600,
+      contextLimit: 200000,
+      model: "claude-haiku-4",
+    });
+    expect(turn.costUsd).toBeCloseTo(0.012);
+    expect(turn.byModel.get("claude-sonnet-4")).toMatchObject({ calls: 1, total: 1600, costUsd: 0.01 });
+    expect(turn.byModel.get("claude-haiku-4")).toMatchObject({ calls: 1, total: 350 });
+  });
+
+  it("leaves the cost unset when no call reported one", () => {
+    const turn = createTurnUsage();
+    addCallToTurn(turn, { usage: { input: 10, output: 5 } });
+    expect(turn.costUsd).toBeUndefined();
+  });
+});
+
+describe("turn accumulator", () => {
+  it("starts fresh each turn and only returns turns with calls", () => {
+    startTurnUsage("s1");
+    expect(takeTurnUsage("s1")).toBeUndefined();
+
+    startTurnUsage("s1");
+    recordTurnUsage("s1", { usage: { input: 10, output: 5 } });
+    recordTurnUsage("s1", { usage: { input: 20, output: 5 } });
+    expect(takeTurnUsage("s1")).toMatchObject({ calls: 2, total: 40 });
+    // Taken once
+    expect(takeTurnUsage("s1")).toBeUndefined();
+  });
+});
+
+describe("usageFromMessages", () => {
+  it("reads assistant usage in its different spellings", () => {
+    const turn = usageFromMessages([
+      { role: "user", content: "hi" },
+      { role: "assistant", model: "m1", usage: { input: 10, output: 2 } },
+      { role: "assistant", model: "m1", usage: { inputTokens: 20, outputTokens: 3 } },
+      { role: "assistant", model: "m2", usage: { input_tokens: 30, output_tokens: 4, cacheRead: 5 } },
+    ]);
+
+    expect(turn).toMatchObject({ calls: 3, input: 60, output: 9, cacheRead: 5, total: 74, model: "m2" });
+    expect([...turn.byModel.keys()]).toEqual(["m1", "m2"]);
+  });
+});